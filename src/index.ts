@@ -11,11 +11,14 @@
  * https://prodocs.lceda.cn/cn/api/guide/
  */
 
-import { beautifyRouting as beautifyTask } from './lib/beautify';
+import { checkAcuteAngles } from './lib/acuteAngle';
+import { beautifyRouting as beautifyTask, requestStopBeautify } from './lib/beautify';
+import { cleanupTracks } from './lib/cleanup';
 import { debugLog, debugWarn, logError } from './lib/logger';
 import { getDefaultSettings, getSettings } from './lib/settings';
 import { undoLastOperation as undoTask } from './lib/snapshot';
 import * as Snapshot from './lib/snapshot';
+import { unsmoothRouting } from './lib/unsmooth';
 import { addWidthTransitionsAll, addWidthTransitionsSelected } from './lib/widthTransition';
 
 export function activate(_status?: 'onStartupFinished', _arg?: string): void {
@@ -46,6 +49,36 @@ export function activate(_status?: 'onStartupFinished', _arg?: string): void {
 								title: eda.sys_I18n ? eda.sys_I18n.text('圆滑布线（全部）') : 'Smooth Routing (All)',
 								registerFn: 'beautifyAll',
 							},
+							{
+								id: 'StopBeautify',
+								title: eda.sys_I18n ? eda.sys_I18n.text('停止圆滑') : 'Stop Smoothing',
+								registerFn: 'stopBeautify',
+							},
+							{
+								id: 'UnsmoothSelected',
+								title: eda.sys_I18n ? eda.sys_I18n.text('取消圆滑（选中）') : 'Unsmooth (Selected)',
+								registerFn: 'unsmoothSelected',
+							},
+							{
+								id: 'UnsmoothAll',
+								title: eda.sys_I18n ? eda.sys_I18n.text('取消圆滑（全部）') : 'Unsmooth (All)',
+								registerFn: 'unsmoothAll',
+							},
+							{
+								id: 'CleanupSelected',
+								title: eda.sys_I18n ? eda.sys_I18n.text('整理导线（选中）') : 'Clean Up Tracks (Selected)',
+								registerFn: 'cleanupSelected',
+							},
+							{
+								id: 'CleanupAll',
+								title: eda.sys_I18n ? eda.sys_I18n.text('整理导线（全部）') : 'Clean Up Tracks (All)',
+								registerFn: 'cleanupAll',
+							},
+							{
+								id: 'AcuteAngleCheck',
+								title: eda.sys_I18n ? eda.sys_I18n.text('锐角检查') : 'Acute Angle Check',
+								registerFn: 'acuteAngleCheck',
+							},
 							{
 								id: 'WidthSelected',
 								title: eda.sys_I18n ? eda.sys_I18n.text('过渡线宽（选中）') : 'Width Transition (Selected)',
@@ -105,6 +138,76 @@ export async function beautifyAll() {
 	}
 }
 
+/**
+ * Stop the running smoothing after its current batch
+ */
+export function stopBeautify() {
+	if (requestStopBeautify())
+		eda.sys_Message?.showToastMessage(eda.sys_I18n.text('将在当前批次完成后停止圆滑'));
+	else
+		eda.sys_Message?.showToastMessage(eda.sys_I18n.text('当前没有正在进行的圆滑'));
+}
+
+/**
+ * Unsmooth selected routing
+ */
+export async function unsmoothSelected() {
+	try {
+		await unsmoothRouting('selected');
+	}
+	catch (e: any) {
+		handleError(e);
+	}
+}
+
+/**
+ * Unsmooth all routing
+ */
+export async function unsmoothAll() {
+	try {
+		await unsmoothRouting('all');
+	}
+	catch (e: any) {
+		handleError(e);
+	}
+}
+
+/**
+ * Clean up selected tracks
+ */
+export async function cleanupSelected() {
+	try {
+		await cleanupTracks('selected');
+	}
+	catch (e: any) {
+		handleError(e);
+	}
+}
+
+/**
+ * Clean up all tracks
+ */
+export async function cleanupAll() {
+	try {
+		await cleanupTracks('all');
+	}
+	catch (e: any) {
+		handleError(e);
+	}
+}
+
+/**
+ * List acute corners and offer to repair them
+ */
+export async function acuteAngleCheck() {
+	try {
+		await checkAcuteAngles();
+	}
+	catch (e: any) {
+		handleError(e);
+	}
+}
+
 function handleError(e: any) {
 	logError(`Beautify Routing Error: ${e.message || e}`);
 	if (
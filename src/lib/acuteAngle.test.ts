@@ -0,0 +1,84 @@
+import type { Point } from './math';
+import type { BeautifySettings } from './settings';
+import { describe, expect, it } from 'vitest';
+import { findAcuteCorners, planCornerRepair } from './acuteAngle';
+import { getAngleBetween } from './math';
+import { getDefaultSettings } from './settings';
+
+const TOLERANCE = 0.1;
+
+function track(id: string, start: Point, end: Point, net = 'A', layer = 1) {
+	return { id, net, layer, start, end, width: 10 };
+}
+
+// Two tracks meeting at the origin with a 30° included angle
+const SHARP = [
+	track('a', { x: 100, y: 0 }, { x: 0, y: 0 }),
+	track('b', { x: 0, y: 0 }, { x: 100 * Math.cos(Math.PI / 6), y: 100 * Math.sin(Math.PI / 6) }),
+];
+
+describe('findAcuteCorners', () => {
+	it('reports a sharp two-track corner as repairable', () => {
+		const corners = findAcuteCorners(SHARP, 90, TOLERANCE);
+		expect(corners).toHaveLength(1);
+		expect(corners[0].angle).toBeCloseTo(30);
+		expect(corners[0].repairable).toBe(true);
+	});
+
+	it('ignores corners at or above the threshold', () => {
+		expect(findAcuteCorners(SHARP, 25, TOLERANCE)).toHaveLength(0);
+	});
+
+	it('finds a track ending on the middle of another track', () => {
+		const corners = findAcuteCorners([
+			track('a', { x: -100, y: 0 }, { x: 100, y: 0 }),
+			track('b', { x: 0, y: 0 }, { x: 100, y: 50 }),
+		], 90, TOLERANCE);
+		expect(corners).toHaveLength(1);
+		expect(corners[0].repairable).toBe(false);
+	});
+
+	it('does not repair corners on a via or pad of the net', () => {
+		const [corner] = findAcuteCorners(SHARP, 90, TOLERANCE, [{ net: 'A', layer: null, point: { x: 0, y: 0 } }]);
+		expect(corner.repairable).toBe(false);
+	});
+
+	it('ignores vias and pads of other nets and layers', () => {
+		const [corner] = findAcuteCorners(SHARP, 90, TOLERANCE, [
+			{ net: 'B', layer: null, point: { x: 0, y: 0 } },
+			{ net: 'A', layer: 2, point: { x: 0, y: 0 } },
+		]);
+		expect(corner.repairable).toBe(true);
+	});
+
+	it('does not repair locked tracks', () => {
+		const [corner] = findAcuteCorners([SHARP[0], { ...SHARP[1], locked: true }], 90, TOLERANCE);
+		expect(corner.repairable).toBe(false);
+	});
+});
+
+describe('planCornerRepair', () => {
+	const settings: BeautifySettings = { ...getDefaultSettings(), acuteRepairMode: 'chamfer', acuteRepairSize: 10 };
+
+	it('joins the tracks with a chord that leaves two corners of 90° + θ/2', () => {
+		const [corner] = findAcuteCorners(SHARP, 90, TOLERANCE);
+		const repair = planCornerRepair(corner, settings)!;
+		expect(repair.trim).toBe(10);
+		const { start, end } = repair.element;
+		const chord = { x: end.x - start.x, y: end.y - start.y };
+		for (const branch of corner.branches) {
+			const back = { x: -branch.dir.x, y: -branch.dir.y };
+			const included = 180 - Math.abs(getAngleBetween(back, branch === corner.branches[0] ? chord : { x: -chord.x, y: -chord.y }));
+			expect(included).toBeCloseTo(90 + 30 / 2);
+		}
+	});
+
+	it('gives up when the tracks are too short', () => {
+		const short = [
+			track('a', { x: 4, y: 0 }, { x: 0, y: 0 }),
+			track('b', { x: 0, y: 0 }, { x: 4 * Math.cos(Math.PI / 6), y: 4 * Math.sin(Math.PI / 6) }),
+		];
+		const [corner] = findAcuteCorners(short, 90, TOLERANCE);
+		expect(planCornerRepair(corner, settings)).toBeNull();
+	});
+});
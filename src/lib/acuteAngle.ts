@@ -0,0 +1,397 @@
+/**
+ * Acute Angle Check
+ * Finds same-net corners sharper than a threshold (acid traps), including junctions
+ * where a track ends on another track, lists them and optionally repairs two-track
+ * corners with an extra segment or a larger arc.
+ */
+
+import type { CopperEnd } from './cleanup';
+import type { Point } from './math';
+import type { BeautifySettings } from './settings';
+import { getArcLineWidthMap, makeArcWidthKey } from './beautify';
+import { getCopperEnds } from './cleanup';
+import { addPoint, createPointIndex, findNear } from './connectivity';
+import { debugLog, logError, logInfo } from './logger';
+import { dist, getAngle, getAngleBetween, lerp, rotateVector } from './math';
+import { getScopeFilter, isLayerInScope, isNetInScope, isPointInScope, isPrimitiveLocked } from './scope';
+import { getSettings } from './settings';
+import { createSnapshot, getCurrentPcbInfoSafe } from './snapshot';
+
+const REPORT_LINES = 15;
+
+/**
+ * Track or arc of the board, as seen by the check
+ */
+interface CheckTrack {
+	id: string;
+	net: string;
+	layer: number;
+	start: Point;
+	end: Point;
+	width: number;
+	arcAngle?: number;
+	locked?: boolean; // Locked by the designer, never repaired
+}
+
+/**
+ * Copper leaving a corner: a track end, or one side of a track the corner sits on
+ */
+interface CornerBranch {
+	track: CheckTrack;
+	end: 'start' | 'end' | null; // null: the corner is on the middle of the track
+	dir: Point; // Unit direction away from the corner
+}
+
+/**
+ * Corner sharper than the threshold
+ */
+export interface AcuteCorner {
+	net: string;
+	layer: number;
+	point: Point;
+	angle: number; // Included angle (degrees)
+	branches: [CornerBranch, CornerBranch];
+	repairable: boolean; // Exactly two straight, unlocked track ends meet here, away from vias and pads
+}
+
+/**
+ * Unit direction leaving a track at one of its ends (arcs use their tangent)
+ */
+function getLeavingDirection(track: CheckTrack, end: 'start' | 'end'): Point {
+	const chord = end === 'start'
+		? { x: track.end.x - track.start.x, y: track.end.y - track.start.y }
+		: { x: track.start.x - track.end.x, y: track.start.y - track.end.y };
+	const dir = track.arcAngle
+		? rotateVector(chord, end === 'start' ? -track.arcAngle / 2 : track.arcAngle / 2)
+		: chord;
+	const len = Math.sqrt(dir.x ** 2 + dir.y ** 2) || 1;
+	return { x: dir.x / len, y: dir.y / len };
+}
+
+/**
+ * Whether `p` lies on the inside of a straight track (not within `tolerance` of its ends)
+ */
+function isOnTrackInterior(p: Point, track: CheckTrack, tolerance: number): boolean {
+	if (track.arcAngle)
+		return false;
+	const len = dist(track.start, track.end);
+	if (len < tolerance * 2)
+		return false;
+	const t = ((p.x - track.start.x) * (track.end.x - track.start.x) + (p.y - track.start.y) * (track.end.y - track.start.y)) / len ** 2;
+	if (t * len < tolerance || (1 - t) * len < tolerance)
+		return false;
+	return dist(p, lerp(track.start, track.end, t)) < tolerance;
+}
+
+/**
+ * Index of the first node at or after `x`, in nodes sorted by x
+ */
+function lowerBoundX(nodes: { point: Point }[], x: number): number {
+	let lo = 0;
+	let hi = nodes.length;
+	while (lo < hi) {
+		const mid = (lo + hi) >> 1;
+		if (nodes[mid].point.x < x)
+			lo = mid + 1;
+		else
+			hi = mid;
+	}
+	return lo;
+}
+
+/**
+ * Find corners whose included angle is below the threshold.
+ * Where more than two branches meet, only neighbouring branches form a corner.
+ * @param tracks Tracks and arcs of the board
+ * @param threshold Included angle below which a corner is reported (degrees)
+ * @param tolerance Max gap between track ends meeting at a corner (mil)
+ * @param anchors Vias and pads of the nets (see getCopperEnds): corners on them are not repairable
+ */
+export function findAcuteCorners(tracks: CheckTrack[], threshold: number, tolerance: number, anchors: CopperEnd[] = []): AcuteCorner[] {
+	const anchorIndex = createPointIndex<CopperEnd>(tolerance);
+	for (const anchor of anchors)
+		addPoint(anchorIndex, anchor.point, anchor);
+
+	const groups = new Map<string, CheckTrack[]>();
+	for (const track of tracks) {
+		const key = `${track.net}#@#${track.layer}`;
+		if (!groups.has(key))
+			groups.set(key, []);
+		groups.get(key)!.push(track);
+	}
+
+	const corners: AcuteCorner[] = [];
+	for (const group of groups.values()) {
+		// Cluster track ends into nodes
+		const nodes: { point: Point; branches: CornerBranch[] }[] = [];
+		const nodeIndex = createPointIndex<{ point: Point; branches: CornerBranch[] }>(tolerance);
+		for (const track of group) {
+			if (dist(track.start, track.end) < tolerance)
+				continue;
+			for (const end of ['start', 'end'] as const) {
+				const point = track[end];
+				let node = findNear(nodeIndex, point)[0];
+				if (!node) {
+					node = { point, branches: [] };
+					nodes.push(node);
+					addPoint(nodeIndex, point, node);
+				}
+				node.branches.push({ track, end, dir: getLeavingDirection(track, end) });
+			}
+		}
+
+		// A track end landing on the middle of another track splits it into two branches.
+		// Nodes are sorted along x, so each track only checks the nodes within its extent.
+		const byX = [...nodes].sort((a, b) => a.point.x - b.point.x);
+		for (const track of group) {
+			if (track.arcAngle)
+				continue;
+			const minX = Math.min(track.start.x, track.end.x) - tolerance;
+			const maxX = Math.max(track.start.x, track.end.x) + tolerance;
+			for (let k = lowerBoundX(byX, minX); k < byX.length && byX[k].point.x <= maxX; k++) {
+				const node = byX[k];
+				if (!isOnTrackInterior(node.point, track, tolerance))
+					continue;
+				const len = dist(node.point, track.end);
+				const toEnd = { x: (track.end.x - node.point.x) / len, y: (track.end.y - node.point.y) / len };
+				node.branches.push({ track, end: null, dir: toEnd }, { track, end: null, dir: { x: -toEnd.x, y: -toEnd.y } });
+			}
+		}
+
+		for (const node of nodes) {
+			if (node.branches.length < 2)
+				continue;
+			// Trimming the tracks back would pull them off the via or pad
+			const anchored = findNear(anchorIndex, node.point)
+				.some(anchor => anchor.net === node.branches[0].track.net && (anchor.layer === null || anchor.layer === node.branches[0].track.layer));
+
+			const sorted = [...node.branches].sort((a, b) => getAngle({ x: 0, y: 0 }, a.dir) - getAngle({ x: 0, y: 0 }, b.dir));
+			const pairs: [CornerBranch, CornerBranch][] = sorted.length === 2
+				? [[sorted[0], sorted[1]]]
+				: sorted.map((b, k) => [b, sorted[(k + 1) % sorted.length]]);
+			for (const [a, b] of pairs) {
+				const angle = sorted.length === 2
+					? Math.abs(getAngleBetween(a.dir, b.dir))
+					: (getAngle({ x: 0, y: 0 }, b.dir) - getAngle({ x: 0, y: 0 }, a.dir) + 360) % 360;
+				if (angle >= threshold)
+					continue;
+				corners.push({
+					net: a.track.net,
+					layer: a.track.layer,
+					point: node.point,
+					angle,
+					branches: [a, b],
+					repairable: node.branches.length === 2 && !anchored
+						&& a.end !== null && b.end !== null
+						&& !a.track.arcAngle && !b.track.arcAngle
+						&& !a.track.locked && !b.track.locked
+						&& a.track !== b.track,
+				});
+			}
+		}
+	}
+	return corners;
+}
+
+/**
+ * Geometry that replaces a two-track corner
+ */
+interface CornerRepair {
+	corner: AcuteCorner;
+	trim: number; // How far both tracks are cut back from the corner (mil)
+	element: { type: 'line' | 'arc'; start: Point; end: Point; angle?: number; width: number };
+}
+
+/**
+ * Plan the repair of a corner: both tracks are cut back by the same length and joined
+ * by the chord between the cut points, or by an arc of the repair radius.
+ * The chord is not snapped to 45°; it splits the turn evenly, so a corner of included
+ * angle θ becomes two obtuse corners of 90° + θ/2 each.
+ * @param corner Repairable corner
+ * @param settings Extension settings
+ * @returns Repair, or null if the tracks are too short for it
+ */
+export function planCornerRepair(corner: AcuteCorner, settings: BeautifySettings): CornerRepair | null {
+	const [a, b] = corner.branches;
+	const farA = a.end === 'start' ? a.track.end : a.track.start;
+	const farB = b.end === 'start' ? b.track.end : b.track.start;
+	// Leave room for a repair at the other end of each track
+	const maxTrim = Math.min(dist(corner.point, farA), dist(corner.point, farB)) * 0.45;
+	const width = Math.min(a.track.width, b.track.width);
+	const size = settings.acuteRepairSize;
+	const halfRad = (corner.angle * Math.PI) / 360;
+
+	let trim = settings.acuteRepairMode === 'arc' ? size / Math.tan(halfRad) : size;
+	trim = Math.min(trim, maxTrim);
+	if (settings.acuteRepairMode === 'arc' ? trim * Math.tan(halfRad) < width / 2 : trim < width / 2)
+		return null;
+
+	const start = { x: corner.point.x + a.dir.x * trim, y: corner.point.y + a.dir.y * trim };
+	const end = { x: corner.point.x + b.dir.x * trim, y: corner.point.y + b.dir.y * trim };
+	if (settings.acuteRepairMode === 'arc') {
+		// Turn from travelling into the corner along A to leaving it along B
+		const angle = getAngleBetween({ x: -a.dir.x, y: -a.dir.y }, b.dir);
+		return { corner, trim, element: { type: 'arc', start, end, angle, width } };
+	}
+	return { corner, trim, element: { type: 'line', start, end, width } };
+}
+
+/**
+ * Read every track and arc on the board
+ * @param pcbId Current PCB ID (for arc line widths)
+ */
+async function getBoardTracks(pcbId: string): Promise<CheckTrack[]> {
+	const lines = await eda.pcb_PrimitiveLine.getAll() || [];
+	const arcs = await eda.pcb_PrimitiveArc.getAll() || [];
+	return [...lines, ...arcs].map((p: any) => {
+		const id = p.getState_PrimitiveId();
+		const isArc = typeof p.getState_ArcAngle === 'function';
+		return {
+			id,
+			net: p.getState_Net() || '',
+			layer: Number(p.getState_Layer()),
+			start: { x: p.getState_StartX(), y: p.getState_StartY() },
+			end: { x: p.getState_EndX(), y: p.getState_EndY() },
+			width: (isArc ? getArcLineWidthMap().get(makeArcWidthKey(pcbId, id)) : undefined) ?? p.getState_LineWidth(),
+			arcAngle: isArc ? p.getState_ArcAngle() : undefined,
+			locked: isPrimitiveLocked(p),
+		};
+	});
+}
+
+/**
+ * Apply corner repairs: move the track ends and create the joining segments or arcs
+ * @param repairs Planned repairs
+ * @param pcbId Current PCB ID (for arc line widths)
+ * @returns Number of corners repaired
+ */
+async function applyRepairs(repairs: CornerRepair[], pcbId: string): Promise<number> {
+	// Tracks are edited in memory first, since one track may take part in two corners
+	const edited = new Map<string, { start: Point; end: Point }>();
+	for (const { corner } of repairs) {
+		for (const branch of corner.branches) {
+			if (!edited.has(branch.track.id))
+				edited.set(branch.track.id, { start: branch.track.start, end: branch.track.end });
+		}
+	}
+	for (const { corner, trim } of repairs) {
+		for (const branch of corner.branches) {
+			const ends = edited.get(branch.track.id)!;
+			ends[branch.end!] = { x: corner.point.x + branch.dir.x * trim, y: corner.point.y + branch.dir.y * trim };
+		}
+	}
+
+	for (const [id, ends] of edited) {
+		try {
+			await eda.pcb_PrimitiveLine.modify(id, { startX: ends.start.x, startY: ends.start.y, endX: ends.end.x, endY: ends.end.y });
+		}
+		catch (e: any) {
+			logError(`Failed to update track ${id}: ${e.message || e}`, 'Acute');
+		}
+	}
+
+	let repaired = 0;
+	for (const { corner, element } of repairs) {
+		try {
+			if (element.type === 'arc') {
+				const arc = await eda.pcb_PrimitiveArc.create(corner.net, corner.layer as any, element.start.x, element.start.y, element.end.x, element.end.y, element.angle!, element.width);
+				if (arc)
+					getArcLineWidthMap().set(makeArcWidthKey(pcbId, arc.getState_PrimitiveId()), element.width);
+			}
+			else {
+				await eda.pcb_PrimitiveLine.create(corner.net, corner.layer as any, element.start.x, element.start.y, element.end.x, element.end.y, element.width);
+			}
+			repaired++;
+		}
+		catch (e: any) {
+			logError(`Failed to repair corner at (${corner.point.x.toFixed(2)}, ${corner.point.y.toFixed(2)}): ${e.message || e}`, 'Acute');
+		}
+	}
+	return repaired;
+}
+
+/**
+ * Acute Angle Check: list same-net corners below the configured angle and offer to repair them
+ */
+export async function checkAcuteAngles() {
+	eda.sys_LoadingAndProgressBar?.showLoading?.();
+	try {
+		const settings = await getSettings();
+		const pcbId = (await getCurrentPcbInfoSafe())?.id || 'unknown';
+		// Corners are found on the whole board, so tracks outside the scope still count as connected
+		const scopeFilter = await getScopeFilter(settings);
+		const tracks = await getBoardTracks(pcbId);
+		const anchors = await getCopperEnds(new Set(tracks.map(t => t.net)), new Set(tracks.map(t => t.id)));
+		const corners = findAcuteCorners(tracks, settings.acuteAngleThreshold, settings.connectivityTolerance, anchors)
+			.filter(c => isNetInScope(scopeFilter, c.net) && isLayerInScope(scopeFilter, c.layer) && isPointInScope(scopeFilter, c.point));
+		eda.sys_LoadingAndProgressBar?.destroyLoading?.();
+
+		if (corners.length === 0) {
+			eda.sys_Message?.showToastMessage(`${eda.sys_I18n.text('未发现小于')} ${settings.acuteAngleThreshold}° ${eda.sys_I18n.text('的拐角')}`);
+			return;
+		}
+
+		const lines = corners.map((c) => {
+			const locked = c.branches.some(branch => branch.track.locked);
+			const note = c.repairable ? '' : ` [${eda.sys_I18n.text(locked ? '锁定' : '需手动处理')}]`;
+			return `${c.angle.toFixed(1)}° (${c.point.x.toFixed(2)}, ${c.point.y.toFixed(2)}) ${c.net || 'No Net'}, layer ${c.layer}${note}`;
+		});
+		for (const line of lines)
+			logInfo(line, 'Acute');
+
+		const repairs = corners
+			.filter(c => c.repairable)
+			.map(c => planCornerRepair(c, settings))
+			.filter((r): r is CornerRepair => !!r);
+
+		const reportLines = [
+			`${eda.sys_I18n.text('锐角')}: ${corners.length}, ${eda.sys_I18n.text('可自动修复')}: ${repairs.length}`,
+			...lines.slice(0, REPORT_LINES),
+		];
+		if (lines.length > REPORT_LINES)
+			reportLines.push(`... ${lines.length - REPORT_LINES} ${eda.sys_I18n.text('项更多，详见日志')}`);
+
+		if (repairs.length === 0) {
+			eda.sys_Dialog.showInformationMessage(reportLines.join('\n'), eda.sys_I18n.text('锐角检查'));
+			return;
+		}
+
+		const repair = await new Promise<boolean>((resolve) => {
+			eda.sys_Dialog.showConfirmationMessage(
+				reportLines.join('\n'),
+				eda.sys_I18n.text('锐角检查'),
+				eda.sys_I18n.text('修复'),
+				eda.sys_I18n.text('关闭'),
+				mainButtonClicked => resolve(mainButtonClicked),
+			);
+		});
+		if (!repair)
+			return;
+
+		eda.sys_LoadingAndProgressBar?.showLoading?.();
+		try {
+			await createSnapshot('Acute Angle Repair Before');
+		}
+		catch (e: any) {
+			logError(`Failed to create snapshot: ${e.message || e}`);
+		}
+
+		const repaired = await applyRepairs(repairs, pcbId);
+		debugLog(`Repaired ${repaired} of ${corners.length} acute corners`, 'Acute');
+		eda.sys_Message?.showToastMessage(`${eda.sys_I18n.text('锐角修复完成')}: ${eda.sys_I18n.text('修复了')} ${repaired} ${eda.sys_I18n.text('个拐角')}`);
+
+		try {
+			await createSnapshot('Acute Angle Repair After');
+		}
+		catch (e: any) {
+			logError(`Failed to create result snapshot: ${e.message || e}`);
+		}
+	}
+	catch (e: any) {
+		logError(`Acute angle check failed: ${e.message || e}`, 'Acute');
+		eda.sys_Dialog?.showInformationMessage(e.message, 'Acute Angle Check Error');
+	}
+	finally {
+		eda.sys_LoadingAndProgressBar?.destroyLoading?.();
+	}
+}
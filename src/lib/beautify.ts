@@ -1,10 +1,19 @@
+import type { CleanupPlan } from './cleanup';
 import type { Point } from './math';
-import { runDrcCheckAndParse } from './drc';
-import { getSafeSelectedTracks } from './eda_utils';
-import { debugLog, debugWarn, logError } from './logger';
-import { dist, getAngleBetween, getLineIntersection, lerp } from './math';
+import type { LengthGroup } from './netLength';
+import type { PathElement, PlannedPath, PlannerSegment, SmoothingPlan } from './planner';
+import { applyTrackCleanup, getCopperEnds, planTrackCleanup } from './cleanup';
+import { getNetClassMap, rulesNeedNetClasses } from './cornerRules';
+import { collectClearanceObstacles, runDrcCheckAndParse } from './drc';
+import { getSafeSelectedArcs, getSafeSelectedTracks } from './eda_utils';
+import { debugLog, debugWarn, logError, logInfo, logWarn } from './logger';
+import { dist } from './math';
+import { findDriftingNets, getGroupSkew, getLengthDeltas, getNetLengths, resolveLengthGroups } from './netLength';
+import { getPlanStats, planSmoothing } from './planner';
+import { parsePolylineSource, toPolylineSource } from './polyline';
+import { describeSkips, getScopeFilter, isLayerInScope, isNetInScope, isNetProtected, isPointInScope, isPrimitiveLocked, splitByScope } from './scope';
 import { getSettings } from './settings';
-import { createSnapshot } from './snapshot';
+import { createSnapshot, getCurrentPcbInfoSafe } from './snapshot';
 import { addWidthTransitionsAll } from './widthTransition';
 
 /**
@@ -29,6 +38,428 @@ export function makeArcWidthKey(pcbId: string, arcId: string): string {
 	return `${pcbId}_${arcId}`;
 }
 
+const PREVIEW_LAYER = 13; // EPCB_LayerId.DOCUMENT, drawn over copper but never part of it
+const PREVIEW_REPORT_LINES = 15;
+
+/**
+ * Show planned geometry on the document layer and ask whether to apply it.
+ * Preview primitives are removed again before returning.
+ * @param plan Smoothing plan
+ * @returns true if the user chose Apply
+ */
+async function previewPlans(plan: SmoothingPlan): Promise<boolean> {
+	const { diagnostics } = plan;
+	const previewIds: string[] = [];
+	for (const path of plan.paths) {
+		for (const item of path.elements) {
+			try {
+				const res = item.type === 'line'
+					? (dist(item.start, item.end) > 0.001
+							? await eda.pcb_PrimitiveLine.create('', PREVIEW_LAYER as any, item.start.x, item.start.y, item.end.x, item.end.y, item.width)
+							: null)
+					: await eda.pcb_PrimitiveArc.create('', PREVIEW_LAYER as any, item.start.x, item.start.y, item.end.x, item.end.y, item.angle!, item.width);
+				if (res)
+					previewIds.push(res.getState_PrimitiveId());
+			}
+			catch (e: any) {
+				debugLog(`Failed to draw preview: ${e.message || e}`);
+			}
+		}
+	}
+
+	// Report, also written to the log in full
+	const clamped = diagnostics.filter(d => d.status === 'clamped');
+	const skipped = diagnostics.filter(d => d.status === 'skipped');
+	for (const d of diagnostics)
+		logInfo(`${d.status} (${d.point.x.toFixed(2)}, ${d.point.y.toFixed(2)}) [${d.net || 'No Net'}, layer ${d.layer}]: ${d.reason}`, 'Preview');
+
+	const reportLines = [
+		`${eda.sys_I18n.text('路径')}: ${plan.paths.length}, ${eda.sys_I18n.text('圆滑拐角')}: ${plan.smoothedCorners}`,
+		`${eda.sys_I18n.text('缩小半径')}: ${clamped.length}, ${eda.sys_I18n.text('跳过')}: ${skipped.length}`,
+	];
+	for (const d of diagnostics.slice(0, PREVIEW_REPORT_LINES))
+		reportLines.push(`${d.status === 'clamped' ? eda.sys_I18n.text('缩小半径') : eda.sys_I18n.text('跳过')} (${d.point.x.toFixed(1)}, ${d.point.y.toFixed(1)}) ${d.net || 'No Net'}: ${d.reason}`);
+	if (diagnostics.length > PREVIEW_REPORT_LINES)
+		reportLines.push(`... ${diagnostics.length - PREVIEW_REPORT_LINES} ${eda.sys_I18n.text('项更多，详见日志')}`);
+
+	eda.sys_LoadingAndProgressBar?.destroyLoading?.();
+	const apply = await new Promise<boolean>((resolve) => {
+		eda.sys_Dialog.showConfirmationMessage(
+			reportLines.join('\n'),
+			eda.sys_I18n.text('圆滑预览'),
+			eda.sys_I18n.text('应用'),
+			eda.sys_I18n.text('放弃'),
+			mainButtonClicked => resolve(mainButtonClicked),
+		);
+	});
+
+	if (previewIds.length > 0) {
+		try {
+			await eda.pcb_PrimitiveLine.delete(previewIds);
+			await eda.pcb_PrimitiveArc.delete(previewIds);
+		}
+		catch (e: any) {
+			logError(`Failed to remove preview: ${e.message || e}`);
+		}
+	}
+	return apply;
+}
+
+/**
+ * Created primitives of one rebuilt path, and what is needed to undo it
+ */
+interface PathTransaction {
+	path: PlannedPath;
+	reverted: boolean; // Set when DRC put the original primitives back
+	asPolyline: boolean; // Created as a single polyline
+	createdIds: string[];
+	backupPrimitives: any[];
+	movedStubs: { id: string; original: { startX: number; startY: number; endX: number; endY: number } }[];
+}
+
+/**
+ * Original polyline, kept so a DRC revert can put it back as one primitive
+ */
+interface PolylineBackup {
+	net: string;
+	layer: number;
+	lineWidth: number;
+	source: any[]; // Polygon source array
+}
+
+/**
+ * Move the ends of stub tracks from old branch points onto the smoothed corner geometry,
+ * so branches stay connected
+ * @param moves Old branch point and its new attach point, per rebuilt path
+ * @param tolerance Max gap between a stub end and the old branch point (mil)
+ */
+async function reattachBranchStubs(
+	moves: { net: string; layer: number; from: Point; to: Point; transaction: PathTransaction }[],
+	tolerance: number,
+) {
+	const linesByGroup = new Map<string, any[]>();
+	for (const move of moves) {
+		const groupKey = `${move.net}#@#${move.layer}`;
+		if (!linesByGroup.has(groupKey)) {
+			try {
+				const lines = await eda.pcb_PrimitiveLine.getAll(move.net || undefined, move.layer as any);
+				linesByGroup.set(groupKey, (lines || []).filter(l => l.getState_Net() === move.net));
+			}
+			catch (e: any) {
+				logError(`Failed to read stubs on ${move.net || 'No Net'}: ${e.message || e}`);
+				linesByGroup.set(groupKey, []);
+			}
+		}
+
+		for (const line of linesByGroup.get(groupKey)!) {
+			const start = { x: line.getState_StartX(), y: line.getState_StartY() };
+			const end = { x: line.getState_EndX(), y: line.getState_EndY() };
+			const atStart = dist(start, move.from) < tolerance;
+			const atEnd = dist(end, move.from) < tolerance;
+			if (!atStart && !atEnd)
+				continue;
+
+			const id = line.getState_PrimitiveId();
+			try {
+				await eda.pcb_PrimitiveLine.modify(id, atStart
+					? { startX: move.to.x, startY: move.to.y }
+					: { endX: move.to.x, endY: move.to.y });
+				move.transaction.movedStubs.push({
+					id,
+					original: { startX: start.x, startY: start.y, endX: end.x, endY: end.y },
+				});
+				debugLog(`Stub ${id} re-attached from (${move.from.x.toFixed(2)}, ${move.from.y.toFixed(2)}) to (${move.to.x.toFixed(2)}, ${move.to.y.toFixed(2)})`);
+			}
+			catch (e: any) {
+				logError(`Failed to re-attach stub ${id}: ${e.message || e}`);
+			}
+		}
+	}
+}
+
+/**
+ * Convert a track, polyline segment or arc primitive into planner input
+ * @param track Primitive, or a virtual track made from a polyline segment
+ * @param pcbId Current PCB ID (for arc line widths)
+ */
+function toPlannerSegment(track: any, pcbId: string): PlannerSegment {
+	const segment: PlannerSegment = {
+		id: track.getState_PrimitiveId(),
+		net: track.getState_Net(),
+		layer: Number(track.getState_Layer()),
+		start: { x: track.getState_StartX(), y: track.getState_StartY() },
+		end: { x: track.getState_EndX(), y: track.getState_EndY() },
+		width: track.getState_LineWidth(),
+	};
+	if (track._isPolylineSegment) {
+		const polyline = track._originalPolyline;
+		if (typeof polyline.getState_PrimitiveId === 'function')
+			segment.polylineId = polyline.getState_PrimitiveId();
+		else if (polyline.primitiveId)
+			segment.polylineId = polyline.primitiveId;
+		// Arc pieces of a polyline share its line width
+		if (typeof track.getState_ArcAngle === 'function')
+			segment.arcAngle = track.getState_ArcAngle();
+	}
+	else if (typeof track.getState_ArcAngle === 'function') {
+		segment.arcAngle = track.getState_ArcAngle();
+		segment.width = getArcLineWidthMap().get(makeArcWidthKey(pcbId, segment.id)) ?? segment.width;
+	}
+	return segment;
+}
+
+/**
+ * Segments as they are once a clean-up plan is applied: removed tracks dropped, merged tracks extended
+ * @param segments Planner segments
+ * @param cleanup Clean-up plan of the pre-pass
+ */
+function applyCleanupToSegments(segments: PlannerSegment[], cleanup: CleanupPlan): PlannerSegment[] {
+	const removed = new Set(cleanup.deleteIds);
+	return segments
+		.filter(s => s.polylineId || !removed.has(s.id))
+		.map(s => (!s.polylineId && cleanup.updates.has(s.id) ? { ...s, ...cleanup.updates.get(s.id)! } : s));
+}
+
+/**
+ * Routed length of every net on the board (tracks and arcs)
+ * @param pcbId Current PCB ID (for arc line widths)
+ * @param cleanup Clean-up pre-pass, counted as already applied
+ */
+async function getBoardNetLengths(pcbId: string, cleanup: CleanupPlan | null): Promise<Map<string, number>> {
+	try {
+		const primitives = [
+			...(await eda.pcb_PrimitiveLine.getAll() || []),
+			...(await eda.pcb_PrimitiveArc.getAll() || []),
+		];
+		const segments = primitives.map(p => toPlannerSegment(p, pcbId));
+		return getNetLengths(cleanup ? applyCleanupToSegments(segments, cleanup) : segments);
+	}
+	catch (e: any) {
+		logError(`Failed to read net lengths: ${e.message || e}`, 'Length');
+		return new Map();
+	}
+}
+
+const LENGTH_REPORT_LINES = 15;
+
+/**
+ * Show the length change of every net a run touched, and the skew of length-matched groups.
+ * The full table is also written to the log.
+ * @param deltas Length change per net (mil)
+ * @param lengths Length per net before the run (mil)
+ * @param groups Length-matched groups
+ * @param unit Display unit
+ */
+function showLengthReport(deltas: Map<string, number>, lengths: Map<string, number>, groups: LengthGroup[], unit: 'mm' | 'mil') {
+	const changed = [...deltas].filter(([, delta]) => Math.abs(delta) > 0.001).sort((a, b) => a[1] - b[1]);
+	if (changed.length === 0)
+		return;
+
+	const format = (mil: number) => (unit === 'mm' ? `${(mil * 0.0254).toFixed(3)}mm` : `${mil.toFixed(2)}mil`);
+	const afterLengths = new Map(lengths);
+	for (const [net, delta] of changed)
+		afterLengths.set(net, (lengths.get(net) || 0) + delta);
+
+	const groupLines = groups.map(group =>
+		`[${group.label}] ${eda.sys_I18n.text('长度偏差')}: ${format(getGroupSkew(group, lengths))} -> ${format(getGroupSkew(group, afterLengths))}`);
+	const netLines = changed.map(([net, delta]) => {
+		const before = lengths.get(net) || 0;
+		return `${net || 'No Net'}: ${format(before)} -> ${format(before + delta)} (${delta > 0 ? '+' : ''}${format(delta)})`;
+	});
+	for (const line of [...groupLines, ...netLines])
+		logInfo(line, 'Length');
+
+	const reportLines = [...groupLines, ...netLines.slice(0, LENGTH_REPORT_LINES)];
+	if (netLines.length > LENGTH_REPORT_LINES)
+		reportLines.push(`... ${netLines.length - LENGTH_REPORT_LINES} ${eda.sys_I18n.text('项更多，详见日志')}`);
+	eda.sys_Dialog?.showInformationMessage?.(reportLines.join('\n'), eda.sys_I18n.text('网络长度报告'));
+}
+
+const APPLY_BATCH_SIZE = 50; // Paths replaced per batched delete/create
+const RUN_STATE_KEY = '_jlc_beautify_run_state';
+
+/**
+ * State of the running smoothing operation, shared with the Stop Smoothing command
+ */
+function getRunState(): { running: boolean; stopRequested: boolean } {
+	if (!(eda as any)[RUN_STATE_KEY]) {
+		(eda as any)[RUN_STATE_KEY] = { running: false, stopRequested: false };
+	}
+	return (eda as any)[RUN_STATE_KEY];
+}
+
+/**
+ * Ask the running smoothing operation to stop after the batch it is working on.
+ * Paths already replaced stay replaced; the Before snapshot restores the board.
+ * @returns false if no smoothing is running
+ */
+export function requestStopBeautify(): boolean {
+	const state = getRunState();
+	if (!state.running)
+		return false;
+	state.stopRequested = true;
+	return true;
+}
+
+/**
+ * Get the primitive ID from the result of a create call
+ */
+function getCreatedId(res: any): string | null {
+	if (typeof res === 'string')
+		return res;
+	if (res && typeof res.id === 'string')
+		return res.id;
+	if (res && typeof res.primitiveId === 'string')
+		return res.primitiveId;
+	if (res && typeof res.getState_PrimitiveId === 'function')
+		return res.getState_PrimitiveId();
+	return null;
+}
+
+/**
+ * Primitive API that can delete by ID (line, arc, polyline)
+ */
+interface PrimitiveDeleteApi {
+	delete: (ids: string[]) => any;
+}
+
+/**
+ * Delete primitives with one call, falling back to one call per ID if the batch is rejected
+ * @param api Primitive API to delete with
+ * @param ids Primitive IDs
+ * @param label Primitive type, for logging
+ */
+async function deleteInBatch(api: PrimitiveDeleteApi, ids: string[], label: string) {
+	if (ids.length === 0)
+		return;
+	try {
+		await api.delete(ids);
+	}
+	catch (e: any) {
+		debugLog(`Failed to delete ${ids.length} ${label}s at once, retrying one by one: ${e.message || e}`);
+		for (const id of ids) {
+			try {
+				await api.delete([id]);
+			}
+			catch (err: any) {
+				debugLog(`Failed to delete ${label} ${id}: ${err.message || err}`);
+			}
+		}
+	}
+}
+
+/**
+ * Create one element of a planned path
+ * @returns ID of the created primitive, or null if nothing was created
+ */
+async function createPathElement(item: PathElement, net: string, layer: number, pcbId: string): Promise<string | null> {
+	try {
+		if (item.type === 'line') {
+			// Only create if length > 0
+			if (dist(item.start, item.end) <= 0.001)
+				return null;
+			return getCreatedId(await eda.pcb_PrimitiveLine.create(net, layer as any, item.start.x, item.start.y, item.end.x, item.end.y, item.width));
+		}
+
+		const newId = getCreatedId(await eda.pcb_PrimitiveArc.create(net, layer as any, item.start.x, item.start.y, item.end.x, item.end.y, item.angle!, item.width));
+		if (newId) {
+			// Save arc's correct line width to global Map (with PCB ID distinction)
+			getArcLineWidthMap().set(makeArcWidthKey(pcbId, newId), item.width);
+		}
+		return newId;
+	}
+	catch (e: any) {
+		logError(`Failed to create ${item.type} on ${net || 'No Net'}: ${e.message || e}`);
+		return null;
+	}
+}
+
+/**
+ * Create a planned path as one polyline holding its lines and arcs
+ * @returns ID of the polyline, or null if the host could not create it
+ */
+async function createPathPolyline(plan: PlannedPath): Promise<string | null> {
+	try {
+		const polygon = eda.pcb_MathPolygon.createPolygon(toPolylineSource(plan.elements));
+		if (!polygon)
+			return null;
+		return getCreatedId(await eda.pcb_PrimitivePolyline.create(plan.net, plan.layer as any, polygon, plan.elements[0].width));
+	}
+	catch (e: any) {
+		debugLog(`Failed to create polyline on ${plan.net || 'No Net'}: ${e.message || e}`);
+		return null;
+	}
+}
+
+/**
+ * Replace the source primitives of a batch of paths with their planned geometry.
+ * Old primitives are deleted with one call per type, then all new ones are created concurrently.
+ * @param plans Planned paths
+ * @param pcbId Current PCB ID (for arc line widths)
+ * @param polylines Original polylines taking part in the run, by ID
+ * @param keepPolylines Write paths that came from a polyline back as one polyline
+ * @returns Per path: created IDs and backups (for DRC rollback), or null if nothing was created
+ */
+async function applyPathBatch(
+	plans: PlannedPath[],
+	pcbId: string,
+	polylines: Map<string, PolylineBackup>,
+	keepPolylines: boolean,
+): Promise<(PathTransaction | null)[]> {
+	// Step 1: Delete old objects first
+	const pcbApi = eda as any;
+	const polylineApi = pcbApi.pcb_PrimitivePolyline && typeof pcbApi.pcb_PrimitivePolyline.delete === 'function'
+		? pcbApi.pcb_PrimitivePolyline
+		: eda.pcb_PrimitiveLine;
+	await deleteInBatch(polylineApi, plans.flatMap(plan => plan.deleteIds.polylines), 'Polyline');
+	await deleteInBatch(eda.pcb_PrimitiveLine, plans.flatMap(plan => plan.deleteIds.lines), 'Line');
+	// Existing arcs that are being re-smoothed
+	await deleteInBatch(eda.pcb_PrimitiveArc, plans.flatMap(plan => plan.deleteIds.arcs), 'Arc');
+
+	// Step 2: Create new objects and record IDs
+	return Promise.all(plans.map(async (plan) => {
+		const { net, layer } = plan;
+
+		// A polyline has a single line width, so paths with width changes stay loose lines and arcs
+		let createdIds: string[] = [];
+		const asPolyline = keepPolylines
+			&& plan.deleteIds.polylines.length > 0
+			&& plan.elements.every(item => item.width === plan.elements[0].width);
+		if (asPolyline) {
+			const polylineId = await createPathPolyline(plan);
+			if (polylineId)
+				createdIds = [polylineId];
+			else
+				debugLog(`Polyline on ${net || 'No Net'} written as lines and arcs instead`);
+		}
+		if (createdIds.length === 0) {
+			createdIds = (await Promise.all(plan.elements.map(item => createPathElement(item, net, layer, pcbId))))
+				.filter((id): id is string => !!id);
+		}
+		if (createdIds.length === 0 || plan.sources.length === 0)
+			return null;
+
+		// Backup data (user expects original lines to be shortened, so they are always replaced).
+		// Polylines are backed up whole, so a revert restores the polyline itself.
+		const backupPrimitives: any[] = plan.deleteIds.polylines
+			.filter(id => polylines.has(id))
+			.map(id => ({ type: 'Polyline', ...polylines.get(id)! }));
+		const looseSources = plan.sources.filter(source => !source.polylineId || !polylines.has(source.polylineId));
+		backupPrimitives.push(...looseSources.map(source => ({
+			type: source.arcAngle !== undefined ? 'Arc' : 'Line',
+			net,
+			layer,
+			startX: source.start.x,
+			startY: source.start.y,
+			endX: source.end.x,
+			endY: source.end.y,
+			arcAngle: source.arcAngle,
+			lineWidth: source.width,
+		})));
+		return { path: plan, reverted: false, asPolyline: asPolyline && createdIds.length === 1, createdIds, backupPrimitives, movedStubs: [] };
+	}));
+}
+
 /**
  * Core beautify routing logic (arc-based)
  */
@@ -38,8 +469,13 @@ export function makeArcWidthKey(pcbId: string, arcId: string): string {
  */
 export async function beautifyRouting(scope: 'selected' | 'all' = 'selected') {
 	// await prepareDrcRules(); // Removed
+	if (getRunState().running) {
+		eda.sys_Message?.showToastMessage(eda.sys_I18n.text('圆滑正在进行中'));
+		return;
+	}
 	const settings = await getSettings();
 	let tracks: any[] = [];
+	const polylineBackups = new Map<string, PolylineBackup>();
 
 	// Show progress bar early
 	if (
@@ -50,10 +486,15 @@ export async function beautifyRouting(scope: 'selected' | 'all' = 'selected') {
 	}
 
 	try {
+		const scopeFilter = await getScopeFilter(settings);
+		const skips = { locked: 0, protectedNet: 0, outOfScope: 0 };
+
 		if (scope === 'all') {
 			// Process all tracks
 			debugLog('Processing all tracks');
 			tracks = await eda.pcb_PrimitiveLine.getAll();
+			// Existing arcs join the paths so they can be re-smoothed
+			tracks.push(...(await eda.pcb_PrimitiveArc.getAll() || []));
 		}
 		else {
 			// Process selected tracks
@@ -108,36 +549,50 @@ export async function beautifyRouting(scope: 'selected' | 'all' = 'selected') {
 				}
 
 				if (type === 'Polyline') {
-					// Polyline needs special handling: extract polygon points and convert to segments
+					// Polyline needs special handling: split its polygon source into segments
 					const polygon = obj.getState_Polygon ? obj.getState_Polygon() : (obj.polygon || null);
-					if (polygon && polygon.polygon && Array.isArray(polygon.polygon)) {
-						const coords = polygon.polygon.filter((v: any) => typeof v === 'number');
+					const source = typeof polygon?.getSource === 'function' ? polygon.getSource() : polygon?.polygon;
+					if (Array.isArray(source)) {
 						const net = obj.getState_Net ? obj.getState_Net() : (obj.net || '');
 						const layer = obj.getState_Layer ? obj.getState_Layer() : (obj.layer || 1);
 						const lineWidth = obj.getState_LineWidth ? obj.getState_LineWidth() : (obj.lineWidth || 10);
 						const primId = obj.getState_PrimitiveId ? obj.getState_PrimitiveId() : (obj.primitiveId || 'unknown');
+						const pieces = parsePolylineSource(source);
 
-						// Convert Polyline points into virtual Track objects
-						for (let i = 0; i < coords.length - 2; i += 2) {
-							const x1 = coords[i];
-							const y1 = coords[i + 1];
-							const x2 = coords[i + 2];
-							const y2 = coords[i + 3];
+						// A polyline is replaced as a whole, so it is in scope only as a whole
+						if (isPrimitiveLocked(obj)) {
+							skips.locked++;
+							continue;
+						}
+						if (isNetProtected(scopeFilter.protectedNets, net)) {
+							skips.protectedNet++;
+							continue;
+						}
+						if (!isNetInScope(scopeFilter, net) || !isLayerInScope(scopeFilter, layer)
+							|| !pieces.every(piece => isPointInScope(scopeFilter, piece.start) && isPointInScope(scopeFilter, piece.end))) {
+							debugLog(`Polyline ${primId} out of scope, skipped`);
+							skips.outOfScope++;
+							continue;
+						}
+						polylineBackups.set(primId, { net, layer: Number(layer), lineWidth, source: [...source] });
 
+						// Convert Polyline pieces into virtual Track (or Arc) objects
+						pieces.forEach((piece, k) => {
 							tracks.push({
-								getState_PrimitiveType: () => 'Line',
+								getState_PrimitiveType: () => (piece.arcAngle !== undefined ? 'Arc' : 'Line'),
 								getState_Net: () => net,
 								getState_Layer: () => layer,
-								getState_StartX: () => x1,
-								getState_StartY: () => y1,
-								getState_EndX: () => x2,
-								getState_EndY: () => y2,
+								getState_StartX: () => piece.start.x,
+								getState_StartY: () => piece.start.y,
+								getState_EndX: () => piece.end.x,
+								getState_EndY: () => piece.end.y,
 								getState_LineWidth: () => lineWidth,
-								getState_PrimitiveId: () => `${primId}_seg${i / 2}`,
+								getState_PrimitiveId: () => `${primId}_seg${k}`,
+								...(piece.arcAngle !== undefined ? { getState_ArcAngle: () => piece.arcAngle } : {}),
 								_isPolylineSegment: true,
 								_originalPolyline: obj,
 							});
-						}
+						});
 					}
 				}
 				else {
@@ -145,15 +600,42 @@ export async function beautifyRouting(scope: 'selected' | 'all' = 'selected') {
 					tracks.push(obj);
 				}
 			}
+
+			// Selected arcs join the paths so they can be re-smoothed
+			const arcs = await getSafeSelectedArcs(selectedIds);
+			debugLog(`Got ${arcs.length} arcs`);
+			tracks.push(...arcs);
 		}
 
+		// Ends of locked tracks: corners there stay sharp, so the locked track stays connected
+		const lockedTracks = (scope === 'all'
+			? tracks
+			: [...(await eda.pcb_PrimitiveLine.getAll() || []), ...(await eda.pcb_PrimitiveArc.getAll() || [])]
+		).filter(isPrimitiveLocked);
+		const fixedPoints = lockedTracks.flatMap(t => [
+			{ x: t.getState_StartX(), y: t.getState_StartY() },
+			{ x: t.getState_EndX(), y: t.getState_EndY() },
+		]);
+
+		// Polyline pieces were checked as whole polylines above
+		const split = splitByScope(scopeFilter, tracks.filter(t => !t._isPolylineSegment));
+		tracks = [...split.kept, ...tracks.filter(t => t._isPolylineSegment)];
+		skips.locked += split.skips.locked;
+		skips.protectedNet += split.skips.protectedNet;
+		skips.outOfScope += split.skips.outOfScope;
+		const skipSummary = describeSkips(skips);
+		if (skipSummary)
+			logInfo(`Skipped ${skips.locked} locked and ${skips.protectedNet} protected-net tracks`);
+		if (skips.outOfScope > 0)
+			debugLog(`Scope filter left out ${skips.outOfScope} tracks`);
+
 		if (tracks.length < 1) {
 			if (
 				eda.sys_Message
 				&& typeof eda.sys_Message.showToastMessage === 'function'
 			) {
 				eda.sys_Message.showToastMessage(
-					eda.sys_I18n.text('未找到可处理的导线'),
+					[eda.sys_I18n.text('未找到可处理的导线'), skipSummary].filter(Boolean).join('; '),
 				);
 			}
 			return;
@@ -166,623 +648,144 @@ export async function beautifyRouting(scope: 'selected' | 'all' = 'selected') {
 			eda.sys_LoadingAndProgressBar.showLoading();
 		}
 
-		// Create snapshot (Undo support)
-		try {
-			const name = scope === 'all' ? 'Beautify (All) Before' : 'Beautify (Selected) Before';
-			await createSnapshot(name);
-		}
-		catch (e: any) {
-			logError(`Failed to create snapshot: ${e.message || e}`);
-		}
+		const runState = getRunState();
+		runState.running = true;
+		runState.stopRequested = false;
 
 		try {
-			// Group by net and layer
-			const groups = new Map<string, any[]>();
-			for (const track of tracks) {
-				const net = track.getState_Net();
-				const layer = track.getState_Layer();
-				const key = `${net}#@#${layer}`;
-				if (!groups.has(key))
-					groups.set(key, []);
-				groups.get(key)?.push(track);
+			// Arc widths are looked up per PCB (see getArcLineWidthMap)
+			const pcbId = (await getCurrentPcbInfoSafe())?.id || 'unknown';
+
+			// Net classes are only needed when a rule filters on them
+			const netClasses = rulesNeedNetClasses(settings.cornerRules) ? await getNetClassMap() : undefined;
+
+			let segments = tracks.map(track => toPlannerSegment(track, pcbId));
+
+			// Clean-up pre-pass, planned in memory so paths are extracted from merged, duplicate-free
+			// tracks; the board only changes once the smoothing is applied
+			const cleanupInput = segments.filter(s => !s.polylineId && s.arcAngle === undefined);
+			const cleanup = settings.cleanupBeforeSmoothing
+				? planTrackCleanup(
+						cleanupInput,
+						settings.connectivityTolerance,
+						await getCopperEnds(new Set(cleanupInput.map(s => s.net)), new Set(cleanupInput.map(s => s.id))),
+					)
+				: null;
+			if (cleanup) {
+				segments = applyCleanupToSegments(segments, cleanup);
+				logInfo(`Clean up: ${cleanup.degenerate} zero-length, ${cleanup.duplicates} duplicate, ${cleanup.merged} merged`, 'Cleanup');
 			}
 
-			let processedPaths = 0;
-			let createdArcs = 0;
-			let clampedCorners = 0;
-
-			const pathTransactions: { createdIds: string[]; backupPrimitives: any[] }[] = [];
-
-			for (const [key, group] of groups) {
-				const [net, layer] = key.split('#@#');
-
-				// Improved path extraction: find all continuous paths
-				const segs = group.map(t => ({
-					p1: { x: t.getState_StartX(), y: t.getState_StartY() },
-					p2: { x: t.getState_EndX(), y: t.getState_EndY() },
-					width: t.getState_LineWidth(),
-					id: t.getState_PrimitiveId(),
-					track: t,
-				}));
-
-				// Helper: generate coordinate key
-				// Use 3 decimal places, consistent with widthTransition, to avoid floating-point disconnections
-				const pointKey = (p: { x: number; y: number }): string => `${p.x.toFixed(3)},${p.y.toFixed(3)}`;
-
-				// Build adjacency map
-				const connections = new Map<string, typeof segs[0][]>();
-				for (const seg of segs) {
-					const key1 = pointKey(seg.p1);
-					const key2 = pointKey(seg.p2);
-					if (!connections.has(key1))
-						connections.set(key1, []);
-					if (!connections.has(key2))
-						connections.set(key2, []);
-					connections.get(key1)?.push(seg);
-					connections.get(key2)?.push(seg);
+			// Copper of other nets, so corners are planned clear of it instead of reverted after DRC
+			const obstacles = settings.enableDRC
+				? await collectClearanceObstacles(
+						new Set(segments.map(s => s.layer)),
+						arcId => getArcLineWidthMap().get(makeArcWidthKey(pcbId, arcId)),
+					)
+				: undefined;
+
+			// Lengths of every net on the board, read from the board itself: groups also count members
+			// outside the selection, and locked, protected or out-of-scope tracks are routing too.
+			// Measured after the clean-up pre-pass, whose removed duplicates are not routing
+			const lengthMatching = settings.lengthMatchMode === 'limitRadius' || settings.lengthMatchMode === 'rollback';
+			const boardLengths = settings.lengthReport || lengthMatching
+				? await getBoardNetLengths(pcbId, cleanup)
+				: new Map<string, number>();
+			const lengthGroups = lengthMatching ? resolveLengthGroups(settings.lengthMatchGroups, boardLengths.keys()) : [];
+
+			// Limit radius: no member may lose more than the tolerance, so no group skew grows by more
+			const lengthBudgets = settings.lengthMatchMode === 'limitRadius'
+				? new Map(lengthGroups.flatMap(group => group.nets).map(net => [net, settings.lengthMatchTolerance]))
+				: undefined;
+
+			const plan = planSmoothing(segments, settings, { netClasses, obstacles, lengthBudgets, fixedPoints, log: message => debugLog(message) });
+
+			// Roll back: nets that would drift out of their group keep their original tracks
+			let driftingNets = new Set<string>();
+			if (settings.lengthMatchMode === 'rollback' && lengthGroups.length > 0) {
+				driftingNets = findDriftingNets(lengthGroups, getLengthDeltas(plan.paths), settings.lengthMatchTolerance);
+				if (driftingNets.size > 0) {
+					plan.paths = plan.paths.filter(path => !driftingNets.has(path.net));
+					Object.assign(plan, getPlanStats(plan.paths));
+					logWarn(`Length-matched nets over tolerance, original tracks kept: ${[...driftingNets].join(', ')}`, 'Length');
 				}
+			}
 
-				// Extract all continuous paths
-				const used = new Set<string>();
-				interface PathData {
-					points: Point[];
-					orderedSegs: typeof segs[0][];
-				}
-				const paths: PathData[] = [];
-
-				for (const startSeg of segs) {
-					if (used.has(startSeg.id))
-						continue;
-
-					const points: Point[] = [startSeg.p1, startSeg.p2];
-					const orderedSegs: typeof segs[0][] = [startSeg];
-					used.add(startSeg.id);
-
-					// Extend path in both directions
-					let extended = true;
-					while (extended) {
-						extended = false;
-
-						// Try extending from the end
-						const lastKey = pointKey(points[points.length - 1]);
-						const lastConns = connections.get(lastKey) || [];
-
-						// Stop at branch points (connection count > 2)
-						if (lastConns.length <= 2) {
-							for (const seg of lastConns) {
-								if (used.has(seg.id))
-									continue;
-								const nextKey1 = pointKey(seg.p1);
-								const nextKey2 = pointKey(seg.p2);
-								if (nextKey1 === lastKey) {
-									points.push(seg.p2);
-									orderedSegs.push(seg);
-									used.add(seg.id);
-									extended = true;
-									break;
-								}
-								else if (nextKey2 === lastKey) {
-									points.push(seg.p1);
-									orderedSegs.push(seg);
-									used.add(seg.id);
-									extended = true;
-									break;
-								}
-							}
-						}
+			const pathTransactions: PathTransaction[] = [];
+			const branchMoves: { net: string; layer: number; from: Point; to: Point; transaction: PathTransaction }[] = [];
 
-						// Try extending from the start
-						if (!extended) {
-							const firstKey = pointKey(points[0]);
-							const firstConns = connections.get(firstKey) || [];
-
-							// Stop at branch points (connection count > 2)
-							if (firstConns.length <= 2) {
-								for (const seg of firstConns) {
-									if (used.has(seg.id))
-										continue;
-									const nextKey1 = pointKey(seg.p1);
-									const nextKey2 = pointKey(seg.p2);
-									if (nextKey1 === firstKey) {
-										points.unshift(seg.p2);
-										orderedSegs.unshift(seg);
-										used.add(seg.id);
-										extended = true;
-										break;
-									}
-									else if (nextKey2 === firstKey) {
-										points.unshift(seg.p1);
-										orderedSegs.unshift(seg);
-										used.add(seg.id);
-										extended = true;
-										break;
-									}
-								}
-							}
-						}
-					}
-
-					if (points.length >= 3) {
-						paths.push({
-							points,
-							orderedSegs,
-						});
-					}
+			// Preview: nothing on the board changes until the user applies the plan
+			if (settings.previewBeforeApply && plan.paths.length > 0) {
+				const apply = await previewPlans(plan);
+				if (!apply) {
+					eda.sys_Message?.showToastMessage(eda.sys_I18n.text('已放弃圆滑预览'));
+					return;
 				}
+				eda.sys_LoadingAndProgressBar?.showLoading?.();
+			}
 
-				// Process each path
-				for (const path of paths) {
-					const currentPathCreatedIds: string[] = [];
-					const { points, orderedSegs } = path;
-
-					// Check data integrity
-					if (!points || points.some(p => !p || typeof p.x !== 'number' || typeof p.y !== 'number')) {
-						logError('Path contains invalid points, skipping');
-						continue;
-					}
-
-					if (points.length >= 3) {
-						processedPaths++;
-						let radius = settings.cornerRadius;
-
-						// JLC EDA API system units are always mil (SYS_Unit.getSystemDataUnit() -> MIL)
-						// So all coordinate calculations must be in mil
-						if (settings.unit === 'mm') {
-							radius = eda.sys_Unit.mmToMil(radius); // mm -> mil
-						}
-
-						// Generate new geometry - each element includes its own line width
-						const newPath: {
-							type: 'line' | 'arc';
-							start: Point;
-							end: Point;
-							angle?: number;
-							width: number;
-						}[] = [];
-						let currentStart = points[0];
-
-						for (let i = 1; i < points.length - 1; i++) {
-							const pPrev = points[i - 1];
-							const pCorner = points[i];
-							const pNext = points[i + 1];
-
-							// Get line widths of previous and next segments
-							// orderedSegs[i-1] is the segment from point i-1 to point i
-							// orderedSegs[i] is the segment from point i to point i+1
-							const prevSegWidth = orderedSegs[i - 1]?.width ?? orderedSegs[0].width;
-							const nextSegWidth = orderedSegs[i]?.width ?? prevSegWidth;
-
-							let isMerged = false;
-
-							try {
-								// Try short segment merging logic (fixes U-turn middle segments too short to smooth)
-								if (settings.mergeShortSegments && i < points.length - 2) {
-									const pAfter = points[i + 2];
-									// Extra check that pAfter exists
-									if (pAfter) {
-										const segLen = dist(pCorner, pNext);
-
-										// When middle segment is shorter than 1.5x the corner radius, try merging
-										// (Relaxed condition, was previously < radius)
-										if (segLen < radius * 1.5) {
-											const vIn = { x: pPrev.x - pCorner.x, y: pPrev.y - pCorner.y };
-											const vMid = { x: pNext.x - pCorner.x, y: pNext.y - pCorner.y };
-											const vOut = { x: pAfter.x - pNext.x, y: pAfter.y - pNext.y }; // Note vector direction
-
-											// Calculate corner directions
-											// getAngleBetween returns angle from v1 to v2
-											const angle1 = getAngleBetween({ x: -vIn.x, y: -vIn.y }, { x: vMid.x, y: vMid.y });
-											// Fix: Angle2 should also use "Forward Incoming" (vMid) and "Forward Outgoing" (vOut)
-											const angle2 = getAngleBetween({ x: vMid.x, y: vMid.y }, { x: vOut.x, y: vOut.y });
-
-											// If both corners are in the same direction (product > 0) and angles aren't tiny
-											if (angle1 * angle2 > 0 && Math.abs(angle1) > 1 && Math.abs(angle2) > 1) {
-												// Calculate intersection of the two long edges (extensions of pPrev->pCorner and pNext->pAfter)
-												const intersection = getLineIntersection(pPrev, pCorner, pNext, pAfter);
-
-												if (intersection) {
-													// Check if intersection is within reasonable range
-													// If too far from pCorner or pNext, lines are nearly parallel - not suitable for merging
-													const dInt1 = dist(intersection, pCorner);
-													const dInt2 = dist(intersection, pNext);
-
-													// Limit: intersection distance shouldn't exceed 10x segment length
-													if (dInt1 < segLen * 10 && dInt2 < segLen * 10) {
-														// Found intersection, try building a larger arc centered on it
-														const t_v1 = { x: pPrev.x - intersection.x, y: pPrev.y - intersection.y };
-														const t_v2 = { x: pAfter.x - intersection.x, y: pAfter.y - intersection.y };
-														const t_mag1 = Math.sqrt(t_v1.x ** 2 + t_v1.y ** 2);
-														const t_mag2 = Math.sqrt(t_v2.x ** 2 + t_v2.y ** 2);
-
-														// Calculate included angle
-														const t_dot = (t_v1.x * t_v2.x + t_v1.y * t_v2.y) / (t_mag1 * t_mag2);
-														const t_safeDot = Math.max(-1, Math.min(1, t_dot));
-														const t_angleRad = Math.acos(t_safeDot);
-
-														// Calculate geometric limit radius (prevent bulging)
-														// Only limit when radius is very large.
-														// The previous t_limitRadius based on bridge segment depth was incorrect
-														// because we're trying to eliminate that depth during merging.
-														// So we remove that limit.
-
-														const t_tanVal = Math.tan(t_angleRad / 2);
-														let t_d = 0;
-														if (Math.abs(t_tanVal) > 0.0001) {
-															t_d = radius / t_tanVal;
-														}
-
-														// Limit radius to prevent consuming too much of the segments
-														// t_mag1 and t_mag2 are distances from intersection to pPrev/pAfter
-														// If the arc is too large, tangent points will exceed segment bounds
-														const t_maxAllowedRadius = Math.min(t_mag1 * 0.95, t_mag2 * 0.95);
-														const t_actualD = Math.min(t_d, t_maxAllowedRadius);
-
-														let t_limitByWidth = false;
-
-														// Line width check:
-														// If merged arc effective radius is less than half the line width, don't generate
-														// (prevents self-intersection/sharp angles)
-														const t_effectiveRadius = t_actualD * Math.abs(t_tanVal);
-														const t_maxLineWidth = Math.max(prevSegWidth, nextSegWidth); // Use larger width as conservative estimate
-
-														if (t_effectiveRadius < (t_maxLineWidth / 2) - 0.05) {
-															t_limitByWidth = true;
-															debugLog(`Merge skipped on ${net}: Radius too small for width (Radius=${t_effectiveRadius.toFixed(2)}, Width=${t_maxLineWidth})`);
-														}
-
-														if (t_actualD > 0.05 && !t_limitByWidth) {
-															const pStart = lerp(intersection, pPrev, t_actualD / t_mag1);
-															const pEnd = lerp(intersection, pAfter, t_actualD / t_mag2);
-
-															// Add straight line segment
-															if (dist(currentStart, pStart) > 0.001) {
-																newPath.push({
-																	type: 'line',
-																	start: currentStart,
-																	end: pStart,
-																	width: prevSegWidth,
-																});
-															}
-
-															// Calculate arc angle
-															const t_sweptAngle = getAngleBetween(
-																{ x: -t_v1.x, y: -t_v1.y },
-																{ x: t_v2.x, y: t_v2.y },
-															);
-
-															// Use the next segment's line width after merge
-															const afterSegWidth = orderedSegs[i + 1]?.width ?? nextSegWidth;
-
-															newPath.push({
-																type: 'arc',
-																start: pStart,
-																end: pEnd,
-																angle: t_sweptAngle,
-																width: afterSegWidth,
-															});
-
-															createdArcs++;
-															currentStart = pEnd;
-
-															// Successfully merged, skip the next point
-															i++;
-															isMerged = true;
-
-															// Log
-															debugLog(`Merged short segment on ${net} at index ${i - 1}, segLen: ${segLen.toFixed(2)}, new radius usage: ${t_actualD.toFixed(2)}`);
-														}
-														else {
-															debugLog(`Merge calc failed on ${net}. actualD too small (${t_actualD})`);
-														}
-													}
-													else {
-														debugLog(`Merge skipped on ${net}: Intersection too far (dInt1=${dInt1.toFixed(2)}, dInt2=${dInt2.toFixed(2)}, limit=${(segLen * 10).toFixed(2)})`);
-													}
-												}
-												else {
-													debugLog(`Merge skipped on ${net}: Lines Parallel or No Intersection`);
-												}
-											}
-											else {
-												debugLog(`Merge skipped on ${net}: Angles not suitable for U-turn (angle1=${angle1.toFixed(1)}, angle2=${angle2.toFixed(1)})`);
-											}
-										}
-									}
-								}
-							}
-							catch (err: any) {
-								logError(`Merge logic failed at index ${i} on ${net}: ${err.message}`);
-								// fall through to normal logic
-							}
-
-							if (!isMerged) {
-								// Calculate angle between tracks
-								const v1 = {
-									x: pPrev.x - pCorner.x,
-									y: pPrev.y - pCorner.y,
-								};
-								const v2 = {
-									x: pNext.x - pCorner.x,
-									y: pNext.y - pCorner.y,
-								};
-
-								const mag1 = Math.sqrt(v1.x ** 2 + v1.y ** 2);
-								const mag2 = Math.sqrt(v2.x ** 2 + v2.y ** 2);
-
-								// Calculate included angle
-								const dot = (v1.x * v2.x + v1.y * v2.y) / (mag1 * mag2);
-								// Clamp dot to prevent numerical errors
-								const safeDot = Math.max(-1, Math.min(1, dot));
-								const angleRad = Math.acos(safeDot);
-
-								// Calculate tangent point distance
-								// d = R / tan(angle / 2)
-								// When angle approaches 180deg (PI), tan(PI/2) -> Inf, d -> 0
-								// When angle approaches 0deg (0), tan(0) -> 0, d -> Inf
-								const tanVal = Math.tan(angleRad / 2);
-								let d = 0;
-								if (Math.abs(tanVal) > 0.0001) {
-									d = radius / tanVal;
-								}
-
-								// If segment is too short, shrink radius to fit (max 45% of segment length)
-								const maxAllowedRadius = Math.min(mag1 * 0.45, mag2 * 0.45);
-								const actualD = Math.min(d, maxAllowedRadius);
-
-								let isSkippedDueToClamp = false;
-
-								// 1. Check segment length limit
-								// If actual tangent distance is significantly less than theoretical (< 95%), severe scaling occurred
-								// If segment too short for tangent on one side, skip arc generation, only print warning
-								// Force Arc option: if enabled, force generation (accept scaled radius), otherwise skip
-								if (d > 0.001 && actualD < d * 0.95) {
-									if (settings.forceArc) {
-										// Force mode: only log debug, don't skip
-										debugLog(`Corner at (${pCorner.x.toFixed(2)}, ${pCorner.y.toFixed(2)}) clamped. Req: ${d.toFixed(2)}, Act: ${actualD.toFixed(2)}`);
-									}
-									else {
-										clampedCorners++;
-										isSkippedDueToClamp = true;
-										debugWarn(`Corner at (${pCorner.x.toFixed(2)}, ${pCorner.y.toFixed(2)}) [Net: ${net || 'No Net'}] skipped. Segment too short for radius. Req: ${d.toFixed(2)}, Act: ${actualD.toFixed(2)}`);
-									}
-								}
-
-								// 2. Check line width limit (line too wide causes negative inner arc radius)
-								if (!isSkippedDueToClamp) {
-									const effectiveRadius = actualD * Math.abs(tanVal);
-									const maxLineWidth = Math.max(prevSegWidth, nextSegWidth);
-									// Inner radius = center radius - lineWidth/2
-									// Allow inner radius to be 0 (sharp corner), but not negative
-									// Must ensure effectiveRadius >= maxLineWidth / 2
-									// Use small tolerance (0.05) to allow "Radius == Width/2" within float precision
-									if (effectiveRadius < (maxLineWidth / 2) - 0.05) {
-										isSkippedDueToClamp = true;
-										debugWarn(`Corner at (${pCorner.x.toFixed(2)}, ${pCorner.y.toFixed(2)}) [Net: ${net || 'No Net'}] skipped. Radius too small for line width. Radius: ${effectiveRadius.toFixed(2)}, Width: ${maxLineWidth}`);
-									}
-								}
-
-								const finalActualD = actualD;
-
-								// DRC logic removed (moved to post-check)
-
-								// Only generate arc when tangent distance is valid and large enough
-								if (finalActualD > 0.05 && !isSkippedDueToClamp) {
-									const pStart = lerp(pCorner, pPrev, finalActualD / mag1);
-									const pEnd = lerp(pCorner, pNext, finalActualD / mag2);
-
-									// Add line [currentStart -> tangentPoint1], using previous segment width
-									newPath.push({
-										type: 'line',
-										start: currentStart,
-										end: pStart,
-										width: prevSegWidth,
-									});
-
-									// Calculate arc angle (signed)
-									const sweptAngle = getAngleBetween(
-										{ x: -v1.x, y: -v1.y },
-										{ x: v2.x, y: v2.y },
-									);
-
-									// Add arc, using next segment width (connects more naturally with next segment)
-									const arcWidth = nextSegWidth;
-									newPath.push({
-										type: 'arc',
-										start: pStart,
-										end: pEnd,
-										angle: sweptAngle,
-										width: arcWidth,
-									});
-
-									createdArcs++;
-									currentStart = pEnd;
-								}
-								else {
-									// Cannot smooth (radius too large or angle unsuitable), keep original corner
-									newPath.push({
-										type: 'line',
-										start: currentStart,
-										end: pCorner,
-										width: prevSegWidth,
-									});
-									currentStart = pCorner;
-
-									// Log failure
-									if (!isSkippedDueToClamp && actualD > 0.05 && finalActualD > 0.05) {
-										debugLog(`Corner at (${pCorner.x.toFixed(2)}, ${pCorner.y.toFixed(2)}) skipped. Angle or Radius invalid. net=${net || 'No Net'} actualD=${actualD.toFixed(3)}`);
-									}
-								}
-							}
-						}
-
-						// Last straight segment, using the last segment's line width
-						const lastSegWidth = orderedSegs[orderedSegs.length - 1]?.width ?? orderedSegs[0].width;
-						newPath.push({
-							type: 'line',
-							start: currentStart,
-							end: points[points.length - 1],
-							width: lastSegWidth,
-						});
-
-						// Preparation: calculate all IDs to delete
-						const polylineIdsToDelete = new Set<string>();
-						const lineIdsToDelete = new Set<string>();
-						const backupPrimitives: any[] = [];
-
-						// Always perform replacement logic (user expects original lines to be shortened)
-						for (const seg of orderedSegs) {
-							// Backup data
-							backupPrimitives.push({
-								type: 'Line',
-								net,
-								layer,
-								startX: seg.p1.x,
-								startY: seg.p1.y,
-								endX: seg.p2.x,
-								endY: seg.p2.y,
-								lineWidth: seg.width,
-							});
-
-							if (seg.track._isPolylineSegment) {
-								let originalId = '';
-								if (typeof seg.track._originalPolyline.getState_PrimitiveId === 'function') {
-									originalId = seg.track._originalPolyline.getState_PrimitiveId();
-								}
-								else if (seg.track._originalPolyline.primitiveId) {
-									originalId = seg.track._originalPolyline.primitiveId;
-								}
-								if (originalId) {
-									polylineIdsToDelete.add(originalId);
-								}
-							}
-							else {
-								// Regular Line / Track
-								lineIdsToDelete.add(seg.id);
-							}
-						}
-
-						// Step 1: Delete old objects first
-						// Delete Polylines
-						if (polylineIdsToDelete.size > 0) {
-							const pIds = Array.from(polylineIdsToDelete);
-							try {
-								const pcbApi = eda as any;
-								if (pcbApi.pcb_PrimitivePolyline && typeof pcbApi.pcb_PrimitivePolyline.delete === 'function') {
-									// Try deleting one by one
-									for (const pid of pIds) {
-										await pcbApi.pcb_PrimitivePolyline.delete([pid]);
-									}
-								}
-								else {
-									for (const pid of pIds) {
-										await eda.pcb_PrimitiveLine.delete([pid]);
-									}
-								}
-							}
-							catch (e: any) {
-								debugLog(`Failed to delete Polyline: ${e.message}`);
-							}
-						}
+			// Create snapshot (Undo support)
+			try {
+				const name = scope === 'all' ? 'Beautify (All) Before' : 'Beautify (Selected) Before';
+				await createSnapshot(name);
+			}
+			catch (e: any) {
+				logError(`Failed to create snapshot: ${e.message || e}`);
+			}
 
-						// Delete Lines (one by one to ensure success)
-						if (lineIdsToDelete.size > 0) {
-							const lIds = Array.from(lineIdsToDelete);
-							for (const lid of lIds) {
-								try {
-									// Try passing array with single ID
-									await eda.pcb_PrimitiveLine.delete([lid]);
-								}
-								catch (e: any) {
-									debugLog(`Failed to delete Line ${lid}: ${e.message}`);
-								}
-							}
-						}
+			if (cleanup)
+				await applyTrackCleanup(cleanup);
+
+			// Replace paths in batches with real progress. A stop request is honoured between
+			// batches, where every path is either fully replaced or untouched.
+			const total = plan.paths.length;
+			let appliedPaths = 0;
+			eda.sys_LoadingAndProgressBar?.destroyLoading?.();
+			for (let start = 0; start < total && !runState.stopRequested; start += APPLY_BATCH_SIZE) {
+				const batch = plan.paths.slice(start, start + APPLY_BATCH_SIZE);
+				const transactions = await applyPathBatch(batch, pcbId, polylineBackups, settings.keepPolylines);
+				transactions.forEach((transaction, k) => {
+					if (!transaction)
+						return;
+					pathTransactions.push(transaction);
+					for (const move of batch[k].stubMoves)
+						branchMoves.push({ net: batch[k].net, layer: batch[k].layer, ...move, transaction });
+				});
+				appliedPaths += batch.length;
+
+				// The bar closes itself at 100, so hold it below until the run finishes
+				eda.sys_LoadingAndProgressBar?.showProgressBar?.(
+					Math.min(99, Math.round((appliedPaths / total) * 100)),
+					`${eda.sys_I18n.text('圆滑布线')} ${appliedPaths}/${total}`,
+				);
+				// Yield so the Stop Smoothing command can run
+				await new Promise(resolve => setTimeout(resolve, 0));
+			}
+			eda.sys_LoadingAndProgressBar?.destroyProgressBar?.();
+			eda.sys_LoadingAndProgressBar?.showLoading?.();
 
-						// Step 2: Create new objects and record IDs
-
-						for (const item of newPath) {
-							if (item.type === 'line') {
-								// Only create if length > 0
-								if (dist(item.start, item.end) > 0.001) {
-									const res = await eda.pcb_PrimitiveLine.create(
-										net,
-										layer as any,
-										item.start.x,
-										item.start.y,
-										item.end.x,
-										item.end.y,
-										item.width,
-									);
-
-									// Try to get ID
-									let newId: string | null = null;
-									if (typeof res === 'string')
-										newId = res;
-									else if (res && typeof (res as any).id === 'string')
-										newId = (res as any).id;
-									else if (res && typeof (res as any).primitiveId === 'string')
-										newId = (res as any).primitiveId;
-									else if (res && typeof (res as any).getState_PrimitiveId === 'function')
-										newId = (res as any).getState_PrimitiveId();
-
-									if (newId) {
-										currentPathCreatedIds.push(newId);
-									}
-								}
-							}
-							else {
-								// Arc
-								const res = await eda.pcb_PrimitiveArc.create(
-									net,
-									layer as any,
-									item.start.x,
-									item.start.y,
-									item.end.x,
-									item.end.y,
-									item.angle!,
-									item.width,
-								);
+			// Stubs at smoothed branch points move onto the new corner geometry.
+			// Done after every path is rebuilt, since stubs may belong to paths processed later.
+			await reattachBranchStubs(branchMoves, settings.connectivityTolerance);
 
-								// Try to get ID
-								let newId: string | null = null;
-								if (typeof res === 'string')
-									newId = res;
-								else if (res && typeof (res as any).id === 'string')
-									newId = (res as any).id;
-								else if (res && typeof (res as any).primitiveId === 'string')
-									newId = (res as any).primitiveId;
-								else if (res && typeof (res as any).getState_PrimitiveId === 'function')
-									newId = (res as any).getState_PrimitiveId();
-
-								if (newId) {
-									currentPathCreatedIds.push(newId);
-									// Save arc's correct line width to global Map (with PCB ID distinction)
-									let pcbId = 'unknown';
-									try {
-										const boardInfo = await eda.dmt_Board.getCurrentBoardInfo();
-										if (boardInfo && boardInfo.pcb && boardInfo.pcb.uuid) {
-											pcbId = boardInfo.pcb.uuid;
-										}
-									}
-									catch {
-										// ignore
-									}
-									const mapKey = makeArcWidthKey(pcbId, newId);
-									getArcLineWidthMap().set(mapKey, item.width);
-								}
-							}
-						}
+			// Stopped: leave the Before snapshot as the latest, so Undo restores the board
+			if (appliedPaths < total) {
+				logInfo(`Smoothing stopped after ${appliedPaths} of ${total} paths`);
+				eda.sys_Message?.showToastMessage(
+					`${eda.sys_I18n.text('圆滑已停止')}: ${eda.sys_I18n.text('已处理')} ${appliedPaths}/${total} ${eda.sys_I18n.text('条路径')}, ${eda.sys_I18n.text('可使用撤销恢复')}`,
+				);
+				return;
+			}
 
-						// Record transaction for potential rollback
-						if (currentPathCreatedIds.length > 0 && backupPrimitives.length > 0) {
-							pathTransactions.push({
-								createdIds: currentPathCreatedIds,
-								backupPrimitives: [...backupPrimitives],
-							});
-						}
-					}
-				}
+			// Report parallel groups that could not share a centre
+			for (const rejection of plan.concentricRejections) {
+				const where = rejection.corners
+					.map(c => `${c.net || 'No Net'} (${c.point.x.toFixed(2)}, ${c.point.y.toFixed(2)})`)
+					.join(', ');
+				logWarn(`Parallel corners not made concentric, ${rejection.reason}: ${where}`, 'Concentric');
 			}
+			if (plan.concentricGroups > 0)
+				debugLog(`Concentric groups: ${plan.concentricGroups}, rejected: ${plan.concentricRejections.length}`);
 
 			// Post-Beautify DRC Check & Revert
 			if (settings.enableDRC && pathTransactions.length > 0) {
@@ -805,6 +808,13 @@ export async function beautifyRouting(scope: 'selected' | 'all' = 'selected') {
 								// Try to delete generated objects
 								await eda.pcb_PrimitiveLine.delete(trans.createdIds);
 								await eda.pcb_PrimitiveArc.delete(trans.createdIds);
+								if (trans.asPolyline)
+									await eda.pcb_PrimitivePolyline.delete(trans.createdIds);
+
+								// Move stubs back to the original branch point
+								for (const stub of trans.movedStubs) {
+									await eda.pcb_PrimitiveLine.modify(stub.id, stub.original);
+								}
 
 								// Restore original objects
 								for (const bp of trans.backupPrimitives) {
@@ -819,7 +829,25 @@ export async function beautifyRouting(scope: 'selected' | 'all' = 'selected') {
 											bp.lineWidth,
 										);
 									}
+									else if (bp.type === 'Arc') {
+										await eda.pcb_PrimitiveArc.create(
+											bp.net,
+											bp.layer,
+											bp.startX,
+											bp.startY,
+											bp.endX,
+											bp.endY,
+											bp.arcAngle,
+											bp.lineWidth,
+										);
+									}
+									else if (bp.type === 'Polyline') {
+										const polygon = eda.pcb_MathPolygon.createPolygon(bp.source);
+										if (polygon)
+											await eda.pcb_PrimitivePolyline.create(bp.net, bp.layer, polygon, bp.lineWidth);
+									}
 								}
+								trans.reverted = true;
 								revertedCount++;
 							}
 							catch (e: any) {
@@ -837,20 +865,54 @@ export async function beautifyRouting(scope: 'selected' | 'all' = 'selected') {
 				}
 			}
 
+			// Paths reverted after DRC are not counted
+			const appliedPlans = pathTransactions.filter(trans => !trans.reverted).map(trans => trans.path);
+			const stats = getPlanStats(appliedPlans);
+			if (settings.lengthReport)
+				showLengthReport(getLengthDeltas(appliedPlans), boardLengths, lengthGroups, settings.unit);
+
 			if (
 				eda.sys_Message
 				&& typeof eda.sys_Message.showToastMessage === 'function'
 			) {
-				if (createdArcs > 0) {
+				if (stats.smoothedCorners > 0) {
+					let unitText = eda.sys_I18n.text('个倒角');
+					if (settings.cornerStyle === 'arc')
+						unitText = eda.sys_I18n.text('个圆弧');
+					else if (settings.cornerStyle === 'clothoid')
+						unitText = eda.sys_I18n.text('个拐角');
 					eda.sys_Message.showToastMessage(
-						`${eda.sys_I18n.text('圆弧美化完成')}: ${eda.sys_I18n.text('处理了')} ${processedPaths} ${eda.sys_I18n.text('条路径')}, ${eda.sys_I18n.text('创建了')} ${createdArcs} ${eda.sys_I18n.text('个圆弧')}`,
+						[
+							`${eda.sys_I18n.text('圆弧美化完成')}: ${eda.sys_I18n.text('处理了')} ${stats.processedPaths} ${eda.sys_I18n.text('条路径')}, ${eda.sys_I18n.text('创建了')} ${stats.smoothedCorners} ${unitText}`,
+							skipSummary,
+						].filter(Boolean).join('; '),
 					);
 
-					if (clampedCorners > 0) {
+					if (plan.concentricRejections.length > 0) {
+						setTimeout(() => {
+							if (eda.sys_Message) {
+								eda.sys_Message.showToastMessage(
+									`${plan.concentricRejections.length} ${eda.sys_I18n.text('组平行走线无法同心圆滑，详见日志')}`,
+								);
+							}
+						}, 3500);
+					}
+
+					if (driftingNets.size > 0) {
+						setTimeout(() => {
+							if (eda.sys_Message) {
+								eda.sys_Message.showToastMessage(
+									`${driftingNets.size} ${eda.sys_I18n.text('条等长网络超出容差，已保留原走线')}`,
+								);
+							}
+						}, 5000);
+					}
+
+					if (stats.clampedCorners > 0) {
 						setTimeout(() => {
 							if (eda.sys_Message) {
 								eda.sys_Message.showToastMessage(
-									`Note: ${clampedCorners} corners were automatically scaled down due to short tracks`,
+									`Note: ${stats.clampedCorners} corners were automatically scaled down due to short tracks`,
 								);
 							}
 						}, 2000); // Slight delay for the warning
@@ -858,7 +920,7 @@ export async function beautifyRouting(scope: 'selected' | 'all' = 'selected') {
 				}
 				else {
 					eda.sys_Message.showToastMessage(
-						eda.sys_I18n.text('未找到可以圆滑的拐角（需要至少2条连续导线形成拐角）'),
+						[eda.sys_I18n.text('未找到可以圆滑的拐角（需要至少2条连续导线形成拐角）'), skipSummary].filter(Boolean).join('; '),
 					);
 				}
 			}
@@ -889,6 +951,8 @@ export async function beautifyRouting(scope: 'selected' | 'all' = 'selected') {
 			}
 		}
 		finally {
+			runState.running = false;
+			eda.sys_LoadingAndProgressBar?.destroyProgressBar?.();
 			if (
 				eda.sys_LoadingAndProgressBar
 				&& typeof eda.sys_LoadingAndProgressBar.destroyLoading === 'function'
@@ -0,0 +1,77 @@
+import type { Point } from './math';
+import { describe, expect, it } from 'vitest';
+import { planTrackCleanup } from './cleanup';
+
+const TOLERANCE = 0.01;
+
+function track(id: string, start: Point, end: Point, width = 10, net = 'A', layer = 1) {
+	return { id, net, layer, start, end, width };
+}
+
+describe('planTrackCleanup', () => {
+	it('removes zero-length lines', () => {
+		const plan = planTrackCleanup([track('a', { x: 5, y: 5 }, { x: 5, y: 5 })], TOLERANCE);
+		expect(plan.deleteIds).toEqual(['a']);
+		expect(plan.degenerate).toBe(1);
+	});
+
+	it('keeps the first of two identical tracks', () => {
+		const plan = planTrackCleanup([
+			track('a', { x: 0, y: 0 }, { x: 0, y: 100 }),
+			track('b', { x: 0, y: 100 }, { x: 0, y: 0 }),
+		], TOLERANCE);
+		expect(plan.deleteIds).toEqual(['b']);
+		expect(plan.duplicates).toBe(1);
+	});
+
+	it('removes a track lying on a wider one, but not the other way round', () => {
+		const plan = planTrackCleanup([
+			track('wide', { x: 0, y: 0 }, { x: 100, y: 0 }, 20),
+			track('inner', { x: 20, y: 0 }, { x: 60, y: 0 }, 10),
+			track('wider', { x: 70, y: 0 }, { x: 90, y: 0 }, 30),
+		], TOLERANCE);
+		expect(plan.deleteIds).toEqual(['inner']);
+	});
+
+	it('leaves tracks of other nets and layers alone', () => {
+		const plan = planTrackCleanup([
+			track('a', { x: 0, y: 0 }, { x: 100, y: 0 }),
+			track('b', { x: 0, y: 0 }, { x: 100, y: 0 }, 10, 'B'),
+			track('c', { x: 0, y: 0 }, { x: 100, y: 0 }, 10, 'A', 2),
+		], TOLERANCE);
+		expect(plan.deleteIds).toEqual([]);
+	});
+
+	it('merges a collinear chain into its first segment', () => {
+		const plan = planTrackCleanup([
+			track('a', { x: 0, y: 0 }, { x: 10, y: 0 }),
+			track('b', { x: 10, y: 0 }, { x: 20, y: 0 }),
+			track('c', { x: 20.005, y: 0 }, { x: 30, y: 0 }),
+		], TOLERANCE);
+		expect(plan.merged).toBe(2);
+		expect(plan.deleteIds.sort()).toEqual(['b', 'c']);
+		expect(plan.updates.get('a')).toEqual({ start: { x: 0, y: 0 }, end: { x: 30, y: 0 } });
+	});
+
+	it('does not merge across a bend, a width change or a branch', () => {
+		const plan = planTrackCleanup([
+			track('a', { x: 0, y: 0 }, { x: 10, y: 0 }),
+			track('bend', { x: 10, y: 0 }, { x: 20, y: 1 }),
+			track('b', { x: 0, y: 20 }, { x: 10, y: 20 }),
+			track('narrow', { x: 10, y: 20 }, { x: 20, y: 20 }, 8),
+			track('c', { x: 0, y: 40 }, { x: 10, y: 40 }),
+			track('d', { x: 10, y: 40 }, { x: 20, y: 40 }),
+			track('branch', { x: 10, y: 40 }, { x: 10, y: 50 }),
+		], TOLERANCE);
+		expect(plan.merged).toBe(0);
+	});
+
+	it('does not merge where other copper of the net meets the joint', () => {
+		const input = [track('a', { x: 0, y: 0 }, { x: 10, y: 0 }), track('b', { x: 10, y: 0 }, { x: 20, y: 0 })];
+		const via = { net: 'A', layer: null, point: { x: 10, y: 0 } };
+		const otherNet = { net: 'B', layer: null, point: { x: 10, y: 0 } };
+		const otherLayer = { net: 'A', layer: 2, point: { x: 10, y: 0 } };
+		expect(planTrackCleanup(input, TOLERANCE, [via]).merged).toBe(0);
+		expect(planTrackCleanup(input, TOLERANCE, [otherNet, otherLayer]).merged).toBe(1);
+	});
+});
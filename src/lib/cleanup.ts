@@ -0,0 +1,354 @@
+/**
+ * Clean Up Tracks
+ * Removes zero-length lines and duplicate tracks, and merges collinear segments
+ * that meet end to end, so path extraction and width transition pairing see
+ * one track where the copper is one track.
+ */
+
+import type { Point } from './math';
+import { createNodeKeys } from './connectivity';
+import { getSafeSelectedTracks } from './eda_utils';
+import { debugLog, logError, logInfo } from './logger';
+import { dist, getAngleBetween, pointSegmentDistance } from './math';
+import { describeSkips, getScopeFilter, splitByScope } from './scope';
+import { getSettings } from './settings';
+import { createSnapshot } from './snapshot';
+
+const WIDTH_TOLERANCE = 0.001; // Max difference between widths that count as the same (mil)
+const COLLINEAR_TOLERANCE = 0.01; // Max bend between merged segments (degrees)
+const MULTI_LAYER = 12; // Layer ID of through-hole pads
+
+/**
+ * Track as edited in memory
+ */
+interface CleanupTrack {
+	id: string;
+	net: string;
+	layer: number;
+	start: Point;
+	end: Point;
+	width: number;
+}
+
+/**
+ * End of copper on a net: a track or arc end, a via or a pad
+ */
+export interface CopperEnd {
+	net: string;
+	layer: number | null; // null = every layer (vias, through-hole pads)
+	point: Point;
+}
+
+/**
+ * Changes that clean up a set of tracks
+ */
+export interface CleanupPlan {
+	deleteIds: string[];
+	updates: Map<string, { start: Point; end: Point }>; // New ends of merged tracks
+	degenerate: number; // Zero-length lines removed
+	duplicates: number; // Tracks removed because another track covers them
+	merged: number; // Segments merged into their collinear neighbour
+}
+
+/**
+ * Whether the copper of `inner` lies completely on `outer`
+ */
+function isCoveredBy(inner: CleanupTrack, outer: CleanupTrack, tolerance: number): boolean {
+	return inner.width <= outer.width + WIDTH_TOLERANCE
+		&& pointSegmentDistance(inner.start, outer.start, outer.end) < tolerance
+		&& pointSegmentDistance(inner.end, outer.start, outer.end) < tolerance;
+}
+
+/**
+ * Remove tracks whose copper lies on another track, sweeping along x so only tracks
+ * whose extents overlap are compared
+ * @returns Number of tracks removed
+ */
+function removeCovered(tracks: CleanupTrack[], deleted: Set<string>, tolerance: number): number {
+	const boxes = tracks
+		.map((track, order) => ({
+			track,
+			order,
+			minX: Math.min(track.start.x, track.end.x),
+			maxX: Math.max(track.start.x, track.end.x),
+		}))
+		.filter(box => !deleted.has(box.track.id))
+		.sort((a, b) => a.minX - b.minX);
+
+	let removed = 0;
+	let next = 0;
+	let active: typeof boxes = [];
+	for (const box of boxes) {
+		// A track can only be covered by one that starts no later and ends no sooner along x
+		while (next < boxes.length && boxes[next].minX <= box.minX + tolerance)
+			active.push(boxes[next++]);
+		active = active.filter(other => other.maxX >= box.minX - tolerance);
+		if (deleted.has(box.track.id))
+			continue;
+
+		for (const other of active) {
+			// Exact duplicates cover each other, the later one goes
+			if (other === box || deleted.has(other.track.id) || other.maxX < box.maxX - tolerance)
+				continue;
+			if (other.order > box.order && isCoveredBy(other.track, box.track, tolerance))
+				continue;
+			if (isCoveredBy(box.track, other.track, tolerance)) {
+				deleted.add(box.track.id);
+				removed++;
+				break;
+			}
+		}
+	}
+	return removed;
+}
+
+/**
+ * Merge collinear same-width segments that meet end to end, where nothing else meets them.
+ * Each pass merges disjoint pairs, so long chains collapse in a few passes.
+ * Nodes at `anchors`, the other copper of the net and layer, are never merged.
+ * @returns Number of segments merged away
+ */
+function mergeCollinear(tracks: CleanupTrack[], anchors: Point[], deleted: Set<string>, updated: Set<string>, tolerance: number): number {
+	let merged = 0;
+	let changed = true;
+	while (changed) {
+		changed = false;
+		const pointKey = createNodeKeys(tolerance);
+		const anchored = new Set(anchors.map(pointKey));
+		const ends = new Map<string, { track: CleanupTrack; end: 'start' | 'end' }[]>();
+		for (const track of tracks) {
+			if (deleted.has(track.id))
+				continue;
+			for (const end of ['start', 'end'] as const) {
+				const key = pointKey(track[end]);
+				if (!ends.has(key))
+					ends.set(key, []);
+				ends.get(key)!.push({ track, end });
+			}
+		}
+
+		const used = new Set<string>();
+		for (const [key, node] of ends) {
+			if (node.length !== 2 || anchored.has(key))
+				continue;
+			const [a, b] = node;
+			if (a.track === b.track || used.has(a.track.id) || used.has(b.track.id))
+				continue;
+			if (Math.abs(a.track.width - b.track.width) > WIDTH_TOLERANCE)
+				continue;
+
+			const farA = a.end === 'start' ? a.track.end : a.track.start;
+			const farB = b.end === 'start' ? b.track.end : b.track.start;
+			const joint = a.track[a.end];
+			const bend = getAngleBetween(
+				{ x: joint.x - farA.x, y: joint.y - farA.y },
+				{ x: farB.x - joint.x, y: farB.y - joint.y },
+			);
+			if (Math.abs(bend) > COLLINEAR_TOLERANCE)
+				continue;
+
+			// A keeps its ID and spans both segments
+			a.track[a.end] = farB;
+			deleted.add(b.track.id);
+			updated.add(a.track.id);
+			used.add(a.track.id);
+			used.add(b.track.id);
+			merged++;
+			changed = true;
+		}
+	}
+	return merged;
+}
+
+/**
+ * Plan the clean-up of a set of tracks: zero-length lines, then tracks covered by another
+ * track of the same net, layer and at least the same width, then collinear chains.
+ * @param input Tracks to clean up
+ * @param tolerance Connectivity snap tolerance (mil)
+ * @param anchors Other copper ends of the nets (see getCopperEnds): segments meeting there are not merged
+ */
+export function planTrackCleanup(input: CleanupTrack[], tolerance: number, anchors: CopperEnd[] = []): CleanupPlan {
+	const groups = new Map<string, CleanupTrack[]>();
+	for (const track of input) {
+		const key = `${track.net}#@#${track.layer}`;
+		if (!groups.has(key))
+			groups.set(key, []);
+		groups.get(key)!.push({ ...track });
+	}
+
+	const deleted = new Set<string>();
+	const updated = new Set<string>();
+	const plan: CleanupPlan = { deleteIds: [], updates: new Map(), degenerate: 0, duplicates: 0, merged: 0 };
+
+	for (const tracks of groups.values()) {
+		const { net, layer } = tracks[0];
+		const groupAnchors = anchors
+			.filter(anchor => anchor.net === net && (anchor.layer === null || anchor.layer === layer))
+			.map(anchor => anchor.point);
+
+		for (const track of tracks) {
+			if (dist(track.start, track.end) < tolerance) {
+				deleted.add(track.id);
+				plan.degenerate++;
+			}
+		}
+
+		plan.duplicates += removeCovered(tracks, deleted, tolerance);
+
+		plan.merged += mergeCollinear(tracks, groupAnchors, deleted, updated, tolerance);
+
+		for (const track of tracks) {
+			if (!deleted.has(track.id) && updated.has(track.id))
+				plan.updates.set(track.id, { start: track.start, end: track.end });
+		}
+	}
+	plan.deleteIds = [...deleted];
+	return plan;
+}
+
+/**
+ * Read a track primitive for clean-up
+ * @param line Track primitive
+ */
+function toCleanupTrack(line: any): CleanupTrack {
+	return {
+		id: line.getState_PrimitiveId(),
+		net: line.getState_Net() || '',
+		layer: Number(line.getState_Layer()),
+		start: { x: line.getState_StartX(), y: line.getState_StartY() },
+		end: { x: line.getState_EndX(), y: line.getState_EndY() },
+		width: line.getState_LineWidth(),
+	};
+}
+
+/**
+ * Ends of the copper on a set of nets: tracks and arcs, vias and pads
+ * @param nets Nets to read
+ * @param skipIds Tracks and arcs to leave out, usually the ones being edited
+ */
+export async function getCopperEnds(nets: Set<string>, skipIds: Set<string>): Promise<CopperEnd[]> {
+	const anchors: CopperEnd[] = [];
+
+	const routed = [...(await eda.pcb_PrimitiveLine.getAll() || []), ...(await eda.pcb_PrimitiveArc.getAll() || [])];
+	for (const item of routed) {
+		const net = item.getState_Net() || '';
+		if (!nets.has(net) || skipIds.has(item.getState_PrimitiveId()))
+			continue;
+		const layer = Number(item.getState_Layer());
+		anchors.push(
+			{ net, layer, point: { x: item.getState_StartX(), y: item.getState_StartY() } },
+			{ net, layer, point: { x: item.getState_EndX(), y: item.getState_EndY() } },
+		);
+	}
+
+	for (const via of await eda.pcb_PrimitiveVia.getAll() || []) {
+		const net = via.getState_Net() || '';
+		if (nets.has(net))
+			anchors.push({ net, layer: null, point: { x: via.getState_X(), y: via.getState_Y() } });
+	}
+
+	const pads: any[] = [...(await eda.pcb_PrimitivePad.getAll() || [])];
+	for (const component of await eda.pcb_PrimitiveComponent.getAll() || [])
+		pads.push(...(await eda.pcb_PrimitiveComponent.getAllPinsByPrimitiveId(component.getState_PrimitiveId()) || []));
+	for (const pad of pads) {
+		const net = pad.getState_Net?.() || '';
+		if (!nets.has(net))
+			continue;
+		const layer = Number(pad.getState_Layer());
+		anchors.push({ net, layer: layer === MULTI_LAYER ? null : layer, point: { x: pad.getState_X(), y: pad.getState_Y() } });
+	}
+
+	debugLog(`Read ${anchors.length} copper ends on ${nets.size} nets`, 'Cleanup');
+	return anchors;
+}
+
+/**
+ * Write a clean-up plan to the board: move the ends of merged tracks, then delete the rest
+ * @param plan Planned clean-up
+ */
+export async function applyTrackCleanup(plan: CleanupPlan): Promise<void> {
+	for (const [id, ends] of plan.updates) {
+		try {
+			await eda.pcb_PrimitiveLine.modify(id, { startX: ends.start.x, startY: ends.start.y, endX: ends.end.x, endY: ends.end.y });
+		}
+		catch (e: any) {
+			logError(`Failed to update track ${id}: ${e.message || e}`, 'Cleanup');
+		}
+	}
+	if (plan.deleteIds.length > 0) {
+		try {
+			await eda.pcb_PrimitiveLine.delete(plan.deleteIds);
+		}
+		catch (e: any) {
+			logError(`Failed to delete ${plan.deleteIds.length} tracks: ${e.message || e}`, 'Cleanup');
+		}
+	}
+}
+
+/**
+ * Clean up tracks: remove zero-length lines and duplicates, merge collinear segments
+ * @param scope 'selected' only process selected tracks, 'all' process all tracks
+ * @returns The applied plan, or null if nothing was processed
+ */
+export async function cleanupTracks(scope: 'selected' | 'all' = 'selected'): Promise<CleanupPlan | null> {
+	eda.sys_LoadingAndProgressBar?.showLoading?.();
+
+	try {
+		const settings = await getSettings();
+		let lines: any[] = [];
+		if (scope === 'all') {
+			lines = await eda.pcb_PrimitiveLine.getAll() || [];
+		}
+		else {
+			const selectedIds = await eda.pcb_SelectControl.getAllSelectedPrimitives_PrimitiveId();
+			if (!selectedIds || selectedIds.length === 0) {
+				eda.sys_Message?.showToastMessage(eda.sys_I18n.text('请先选择要处理的导线'));
+				return null;
+			}
+			lines = (await getSafeSelectedTracks(selectedIds)).filter(l => l && typeof l.getState_StartX === 'function');
+		}
+		const split = splitByScope(await getScopeFilter(settings), lines);
+		lines = split.kept;
+		const skipSummary = describeSkips(split.skips);
+
+		const input = lines.map(toCleanupTrack);
+		const anchors = await getCopperEnds(new Set(input.map(t => t.net)), new Set(input.map(t => t.id)));
+		const plan = planTrackCleanup(input, settings.connectivityTolerance, anchors);
+
+		const changes = plan.deleteIds.length + plan.updates.size;
+		if (changes > 0) {
+			const name = scope === 'all' ? 'Clean Up (All)' : 'Clean Up (Selected)';
+			try {
+				await createSnapshot(`${name} Before`);
+			}
+			catch (e: any) {
+				logError(`Failed to create snapshot: ${e.message || e}`);
+			}
+
+			await applyTrackCleanup(plan);
+
+			try {
+				await createSnapshot(`${name} After`);
+			}
+			catch (e: any) {
+				logError(`Failed to create result snapshot: ${e.message || e}`);
+			}
+		}
+
+		logInfo(`Clean up: ${plan.degenerate} zero-length, ${plan.duplicates} duplicate, ${plan.merged} merged; skipped ${split.skips.locked} locked, ${split.skips.protectedNet} protected-net`, 'Cleanup');
+		debugLog(`Deleted: ${plan.deleteIds.join(', ')}; updated: ${[...plan.updates.keys()].join(', ')}`, 'Cleanup');
+		eda.sys_Message?.showToastMessage([
+			`${eda.sys_I18n.text('导线整理完成')}: ${eda.sys_I18n.text('零长度')} ${plan.degenerate}, ${eda.sys_I18n.text('重复')} ${plan.duplicates}, ${eda.sys_I18n.text('合并')} ${plan.merged}`,
+			skipSummary,
+		].filter(Boolean).join('; '));
+		return plan;
+	}
+	catch (e: any) {
+		logError(`Clean up failed: ${e.message || e}`, 'Cleanup');
+		eda.sys_Dialog?.showInformationMessage(e.message, 'Clean Up Error');
+		return null;
+	}
+	finally {
+		eda.sys_LoadingAndProgressBar?.destroyLoading?.();
+	}
+}
@@ -0,0 +1,34 @@
+import type { Capsule } from './clearance';
+import { describe, expect, it } from 'vitest';
+import { createObstacle, getClearance } from './clearance';
+
+// 10 mil wide horizontal track from (0, 0) to (100, 0)
+const TRACK: Capsule[] = [{ start: { x: 0, y: 0 }, end: { x: 100, y: 0 }, radius: 5 }];
+
+describe('getClearance', () => {
+	it('measures the copper gap to a parallel track of another net', () => {
+		const other = createObstacle('b', 'B', 1, [{ start: { x: 0, y: 20 }, end: { x: 100, y: 20 }, radius: 5 }]);
+		expect(getClearance(TRACK, 'A', 1, [other], 50)).toBeCloseTo(10);
+	});
+
+	it('ignores copper of the same net and of other layers', () => {
+		const sameNet = createObstacle('a', 'A', 1, [{ start: { x: 0, y: 8 }, end: { x: 100, y: 8 }, radius: 5 }]);
+		const otherLayer = createObstacle('b', 'B', 2, [{ start: { x: 0, y: 8 }, end: { x: 100, y: 8 }, radius: 5 }]);
+		expect(getClearance(TRACK, 'A', 1, [sameNet, otherLayer], 50)).toBe(Infinity);
+	});
+
+	it('counts copper on every layer, such as vias', () => {
+		const via = createObstacle('v', 'B', null, [{ start: { x: 50, y: 15 }, end: { x: 50, y: 15 }, radius: 6 }]);
+		expect(getClearance(TRACK, 'A', 2, [via], 50)).toBeCloseTo(4);
+	});
+
+	it('reports zero inside a solid outline', () => {
+		const fill = createObstacle('f', 'B', 1, [], [{ x: 40, y: -40 }, { x: 60, y: -40 }, { x: 60, y: 40 }, { x: 40, y: 40 }]);
+		expect(getClearance(TRACK, 'A', 1, [fill], 50)).toBe(0);
+	});
+
+	it('skips copper further away than the limit', () => {
+		const far = createObstacle('b', 'B', 1, [{ start: { x: 0, y: 200 }, end: { x: 100, y: 200 }, radius: 5 }]);
+		expect(getClearance(TRACK, 'A', 1, [far], 50)).toBe(Infinity);
+	});
+});
@@ -0,0 +1,179 @@
+/**
+ * Copper Clearance
+ * Edge-to-edge distance between proposed corner geometry and copper of other nets.
+ * Every piece of copper is reduced to capsules (a segment swept by a radius: tracks,
+ * arcs, round pads, vias) or polygons (rectangular pads, fills), so one distance
+ * routine covers them all.
+ */
+
+import type { Point } from './math';
+import { dist, getArcCenter, pointSegmentDistance, rotateVector } from './math';
+
+const ARC_STEP = 5; // Max turn covered by one chord when arcs become capsules (degrees)
+
+/**
+ * Segment swept by a radius: a track, or a circle when start and end coincide
+ */
+export interface Capsule {
+	start: Point;
+	end: Point;
+	radius: number;
+}
+
+/**
+ * Copper of one primitive, as seen by the clearance check
+ */
+export interface ClearanceObstacle {
+	id: string;
+	net: string;
+	layer: number | null; // null = every copper layer (through-hole pads, vias)
+	capsules: Capsule[];
+	polygon?: Point[]; // Solid outline, in addition to the capsules
+	box: { minX: number; minY: number; maxX: number; maxY: number };
+}
+
+/**
+ * Bounding box of capsules and polygon points
+ */
+function getBox(capsules: Capsule[], polygon?: Point[]): ClearanceObstacle['box'] {
+	const box = { minX: Infinity, minY: Infinity, maxX: -Infinity, maxY: -Infinity };
+	const add = (p: Point, r: number) => {
+		box.minX = Math.min(box.minX, p.x - r);
+		box.minY = Math.min(box.minY, p.y - r);
+		box.maxX = Math.max(box.maxX, p.x + r);
+		box.maxY = Math.max(box.maxY, p.y + r);
+	};
+	for (const c of capsules) {
+		add(c.start, c.radius);
+		add(c.end, c.radius);
+	}
+	for (const p of polygon || [])
+		add(p, 0);
+	return box;
+}
+
+/**
+ * Create an obstacle from capsules and/or a polygon outline
+ */
+export function createObstacle(
+	id: string,
+	net: string,
+	layer: number | null,
+	capsules: Capsule[],
+	polygon?: Point[],
+): ClearanceObstacle {
+	return { id, net, layer, capsules, polygon, box: getBox(capsules, polygon) };
+}
+
+/**
+ * Approximate an arc by chords, each swept by the track half-width
+ * @param start Arc start point
+ * @param end Arc end point
+ * @param arcAngle Signed arc angle (degrees), from start to end
+ * @param radius Half the track width
+ */
+export function arcToCapsules(start: Point, end: Point, arcAngle: number, radius: number): Capsule[] {
+	const chordLen = dist(start, end);
+	if (chordLen < 0.001 || Math.abs(arcAngle) < 0.01)
+		return [{ start, end, radius }];
+
+	const center = getArcCenter(start, end, arcAngle);
+
+	const steps = Math.max(1, Math.ceil(Math.abs(arcAngle) / ARC_STEP));
+	const fromCenter = { x: start.x - center.x, y: start.y - center.y };
+	const capsules: Capsule[] = [];
+	let prev = start;
+	for (let k = 1; k <= steps; k++) {
+		const r = rotateVector(fromCenter, (arcAngle * k) / steps);
+		const next = k === steps ? end : { x: center.x + r.x, y: center.y + r.y };
+		capsules.push({ start: prev, end: next, radius });
+		prev = next;
+	}
+	return capsules;
+}
+
+/**
+ * Shortest distance between two segments
+ */
+function segmentDistance(a1: Point, a2: Point, b1: Point, b2: Point): number {
+	const cross = (o: Point, p: Point, q: Point) => (p.x - o.x) * (q.y - o.y) - (p.y - o.y) * (q.x - o.x);
+	const d1 = cross(b1, b2, a1);
+	const d2 = cross(b1, b2, a2);
+	const d3 = cross(a1, a2, b1);
+	const d4 = cross(a1, a2, b2);
+	if (((d1 > 0 && d2 < 0) || (d1 < 0 && d2 > 0)) && ((d3 > 0 && d4 < 0) || (d3 < 0 && d4 > 0)))
+		return 0;
+	return Math.min(
+		pointSegmentDistance(a1, b1, b2),
+		pointSegmentDistance(a2, b1, b2),
+		pointSegmentDistance(b1, a1, a2),
+		pointSegmentDistance(b2, a1, a2),
+	);
+}
+
+function isPointInPolygon(p: Point, polygon: Point[]): boolean {
+	let inside = false;
+	for (let i = 0, j = polygon.length - 1; i < polygon.length; j = i++) {
+		const a = polygon[i];
+		const b = polygon[j];
+		if ((a.y > p.y) !== (b.y > p.y) && p.x < ((b.x - a.x) * (p.y - a.y)) / (b.y - a.y) + a.x)
+			inside = !inside;
+	}
+	return inside;
+}
+
+/**
+ * Edge-to-edge gap between a capsule and an obstacle (0 when they touch or overlap)
+ */
+function getCapsuleGap(capsule: Capsule, obstacle: ClearanceObstacle): number {
+	let gap = Infinity;
+	for (const other of obstacle.capsules)
+		gap = Math.min(gap, segmentDistance(capsule.start, capsule.end, other.start, other.end) - capsule.radius - other.radius);
+
+	const polygon = obstacle.polygon;
+	if (polygon && polygon.length >= 3) {
+		if (isPointInPolygon(capsule.start, polygon))
+			return 0;
+		for (let i = 0; i < polygon.length; i++) {
+			const a = polygon[i];
+			const b = polygon[(i + 1) % polygon.length];
+			gap = Math.min(gap, segmentDistance(capsule.start, capsule.end, a, b) - capsule.radius);
+		}
+	}
+	return Math.max(0, gap);
+}
+
+/**
+ * Smallest gap between new copper and obstacles of other nets on the same layer
+ * @param capsules New copper
+ * @param net Net of the new copper (obstacles on this net are ignored)
+ * @param layer Layer of the new copper
+ * @param obstacles Copper already on the board
+ * @param limit Gaps at or above this are not measured exactly (mil)
+ * @returns Smallest gap (mil), Infinity if nothing is within `limit`
+ */
+export function getClearance(
+	capsules: Capsule[],
+	net: string,
+	layer: number,
+	obstacles: ClearanceObstacle[],
+	limit: number,
+): number {
+	if (capsules.length === 0)
+		return Infinity;
+	const box = getBox(capsules);
+	let gap = Infinity;
+	for (const obstacle of obstacles) {
+		if (obstacle.net === net || (obstacle.layer !== null && obstacle.layer !== layer))
+			continue;
+		const b = obstacle.box;
+		if (b.minX > box.maxX + limit || b.maxX < box.minX - limit || b.minY > box.maxY + limit || b.maxY < box.minY - limit)
+			continue;
+		for (const capsule of capsules) {
+			gap = Math.min(gap, getCapsuleGap(capsule, obstacle));
+			if (gap === 0)
+				return 0;
+		}
+	}
+	return gap;
+}
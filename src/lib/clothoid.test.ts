@@ -0,0 +1,77 @@
+import type { Point } from './math';
+import { describe, expect, it } from 'vitest';
+import { getClothoidCornerPoints } from './clothoid';
+
+// 90° left turn at (100, 0): in along +x, out along +y, tangent points 50 from the corner
+const pStart = { x: 50, y: 0 };
+const pEnd = { x: 100, y: 50 };
+
+/**
+ * Signed turn at each inner vertex (degrees)
+ */
+function getBends(points: Point[]): number[] {
+	const bends: number[] = [];
+	for (let i = 1; i < points.length - 1; i++) {
+		const a = Math.atan2(points[i].y - points[i - 1].y, points[i].x - points[i - 1].x);
+		const b = Math.atan2(points[i + 1].y - points[i].y, points[i + 1].x - points[i].x);
+		let d = ((b - a) * 180) / Math.PI;
+		while (d > 180) d -= 360;
+		while (d < -180) d += 360;
+		bends.push(d);
+	}
+	return bends;
+}
+
+describe('getClothoidCornerPoints', () => {
+	it('starts and ends on the tangent points', () => {
+		const points = getClothoidCornerPoints(pStart, pEnd, 90, 10);
+		expect(points[0]).toEqual(pStart);
+		expect(points[points.length - 1]).toEqual(pEnd);
+	});
+
+	it('uses an even number of lines, mirrored about the corner bisector', () => {
+		const points = getClothoidCornerPoints(pStart, pEnd, 90, 10);
+		const lines = points.length - 1;
+		expect(lines).toBeGreaterThanOrEqual(6);
+		expect(lines % 2).toBe(0);
+		// The bisector through (100, 0) maps (x, y) to (100 - y, 100 - x)
+		for (let i = 0; i <= lines; i++) {
+			const mirrored = points[lines - i];
+			expect(points[i].x).toBeCloseTo(100 - mirrored.y, 3);
+			expect(points[i].y).toBeCloseTo(100 - mirrored.x, 3);
+		}
+	});
+
+	it('turns one way only and stays inside the corner', () => {
+		const points = getClothoidCornerPoints(pStart, pEnd, 90, 10);
+		const bends = getBends(points);
+		expect(bends.every(b => b > 0)).toBe(true);
+		expect(bends.reduce((sum, b) => sum + b, 0)).toBeLessThan(90);
+		for (const p of points) {
+			expect(p.x).toBeGreaterThanOrEqual(50 - 1e-6);
+			expect(p.x).toBeLessThanOrEqual(100 + 1e-6);
+			expect(p.y).toBeGreaterThanOrEqual(-1e-6);
+			expect(p.y).toBeLessThanOrEqual(50 + 1e-6);
+		}
+	});
+
+	it('eases the curvature in when a transition is requested', () => {
+		const arcBends = getBends(getClothoidCornerPoints(pStart, pEnd, 90, 0));
+		const bends = getBends(getClothoidCornerPoints(pStart, pEnd, 90, 20));
+		const middle = Math.floor(bends.length / 2);
+		// A plain arc bends evenly; a clothoid bends least next to the tangent points
+		expect(arcBends[0]).toBeCloseTo(arcBends[middle], 1);
+		expect(bends[0]).toBeLessThan(bends[middle]);
+	});
+
+	it('mirrors for right turns', () => {
+		const points = getClothoidCornerPoints({ x: 50, y: 0 }, { x: 100, y: -50 }, -90, 10);
+		expect(getBends(points).every(b => b < 0)).toBe(true);
+	});
+
+	it('falls back to a straight line for degenerate corners', () => {
+		expect(getClothoidCornerPoints(pStart, pStart, 90, 10)).toEqual([pStart, pStart]);
+		expect(getClothoidCornerPoints(pStart, pEnd, 0, 10)).toEqual([pStart, pEnd]);
+		expect(getClothoidCornerPoints(pStart, pEnd, 179.5, 10)).toEqual([pStart, pEnd]);
+	});
+});
@@ -0,0 +1,123 @@
+/**
+ * Clothoid Corners
+ * Curvature-continuous corner shape: the curvature ramps up from zero along a transition,
+ * holds through a circular section and ramps back down, so there is no curvature jump
+ * at the tangent points the way there is with a plain arc.
+ */
+
+import type { Point } from './math';
+import { rotateVector, smootherStep } from './math';
+
+const STEPS_PER_SAMPLE = 20; // Integration steps between two output points
+const DEGREES_PER_LINE = 3; // Turn covered by each output line
+const MIN_LINES = 6;
+
+/**
+ * Trace a symmetric transition-arc-transition curve of unit length,
+ * starting at the origin and heading along +x.
+ * @param turn Signed turn angle (radians)
+ * @param rampFraction Share of the length taken by each transition (0 = plain arc, 0.5 = no arc left)
+ * @param samples Number of output lines
+ * @returns samples + 1 points from start to end
+ */
+function traceCurve(turn: number, rampFraction: number, samples: number): Point[] {
+	// Each smootherStep ramp holds half the peak curvature on average, so the peak is turn / (1 - f)
+	const peak = turn / (1 - rampFraction);
+	const curvature = (s: number): number => {
+		if (rampFraction > 0 && s < rampFraction)
+			return peak * smootherStep(s / rampFraction);
+		if (rampFraction > 0 && s > 1 - rampFraction)
+			return peak * smootherStep((1 - s) / rampFraction);
+		return peak;
+	};
+
+	const steps = samples * STEPS_PER_SAMPLE;
+	const h = 1 / steps;
+	const points: Point[] = [{ x: 0, y: 0 }];
+	let x = 0;
+	let y = 0;
+	let heading = 0;
+	for (let k = 0; k < steps; k++) {
+		// Midpoint rule on the heading, which itself is the integral of the curvature
+		const s = k * h;
+		const midHeading = heading + curvature(s + h / 4) * (h / 2);
+		x += Math.cos(midHeading) * h;
+		y += Math.sin(midHeading) * h;
+		heading += curvature(s + h / 2) * h;
+		if ((k + 1) % STEPS_PER_SAMPLE === 0)
+			points.push({ x, y });
+	}
+	return points;
+}
+
+/**
+ * Tangent distance of a unit-length curve: from its start to the corner its end tangents meet at
+ */
+function getUnitTangentDistance(turn: number, end: Point): number {
+	// Walk back from the end along its tangent until we are on the start tangent (y = 0)
+	const t = -end.y / Math.sin(turn);
+	return end.x + t * Math.cos(turn);
+}
+
+/**
+ * Points of a clothoid corner between two tangent points.
+ * Each transition gets the requested length when the corner can hold it; otherwise the transitions
+ * shorten until the circular section disappears, so the corner always starts and ends on the
+ * same tangent points as an arc would (and the usual segment length clamping still applies).
+ * @param pStart Tangent point on the incoming segment
+ * @param pEnd Tangent point on the outgoing segment
+ * @param sweptAngle Signed turn angle of the corner (degrees)
+ * @param transitionLength Requested length of each curvature transition (mil)
+ * @returns Points from pStart to pEnd, to be joined with lines
+ */
+export function getClothoidCornerPoints(pStart: Point, pEnd: Point, sweptAngle: number, transitionLength: number): Point[] {
+	const turn = (sweptAngle * Math.PI) / 180;
+	const chord = { x: pEnd.x - pStart.x, y: pEnd.y - pStart.y };
+	const chordLen = Math.sqrt(chord.x ** 2 + chord.y ** 2);
+	if (chordLen < 0.001 || Math.abs(sweptAngle) < 0.01 || Math.abs(sweptAngle) >= 179)
+		return [pStart, pEnd];
+
+	// Symmetric corner: both tangent points sit at the same distance from the corner
+	const tangentDist = chordLen / 2 / Math.cos(turn / 2);
+	// Even, so the middle point sits on the axis of symmetry
+	const lines = Math.max(MIN_LINES, Math.ceil(Math.abs(sweptAngle) / DEGREES_PER_LINE / 2) * 2);
+
+	// Scale of a unit curve that fits the tangent distance, and its transition length
+	const scaleFor = (fraction: number) => {
+		const unit = traceCurve(turn, fraction, lines);
+		return { unit, scale: tangentDist / getUnitTangentDistance(turn, unit[unit.length - 1]) };
+	};
+
+	let best = scaleFor(0);
+	if (transitionLength > 0) {
+		const longest = scaleFor(0.5);
+		if (longest.scale * 0.5 <= transitionLength) {
+			best = longest;
+		}
+		else {
+			// Transition length grows with the ramp fraction, bisect for the requested one
+			let lo = 0;
+			let hi = 0.5;
+			for (let iter = 0; iter < 30; iter++) {
+				const mid = (lo + hi) / 2;
+				const candidate = scaleFor(mid);
+				if (candidate.scale * mid < transitionLength)
+					lo = mid;
+				else
+					hi = mid;
+				best = candidate;
+			}
+		}
+	}
+
+	const dirIn = rotateVector(chord, -sweptAngle / 2);
+	const baseAngle = (Math.atan2(dirIn.y, dirIn.x) * 180) / Math.PI;
+	const points = best.unit.map((p) => {
+		const r = rotateVector(p, baseAngle);
+		return { x: pStart.x + r.x * best.scale, y: pStart.y + r.y * best.scale };
+	});
+	// Snap the ends onto the tangent points, removing integration error
+	points[0] = pStart;
+	points[points.length - 1] = pEnd;
+	return points;
+}
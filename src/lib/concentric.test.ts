@@ -0,0 +1,53 @@
+import type { ConcentricCorner, ConcentricGroup } from './concentric';
+import type { Point } from './math';
+import { describe, expect, it } from 'vitest';
+import { findConcentricGroups, getConcentricTangentDistances } from './concentric';
+
+function corner(pathIndex: number, prev: Point, at: Point, next: Point, layer = 1): ConcentricCorner {
+	return { pathIndex, cornerIndex: 1, layer, prev, corner: at, next, width: 10 };
+}
+
+// Three tracks 20 mil apart, all turning left by 90°; the innermost corner is at (100, 0)
+const BUS = [
+	corner(0, { x: 0, y: -40 }, { x: 140, y: -40 }, { x: 140, y: 100 }),
+	corner(1, { x: 0, y: 0 }, { x: 100, y: 0 }, { x: 100, y: 100 }),
+	corner(2, { x: 0, y: -20 }, { x: 120, y: -20 }, { x: 120, y: 100 }),
+];
+
+describe('findConcentricGroups', () => {
+	it('groups parallel corners from the inside of the bend out', () => {
+		const { groups, rejected } = findConcentricGroups(BUS, 25);
+		expect(rejected).toEqual([]);
+		expect(groups).toHaveLength(1);
+		expect(groups[0].members.map(m => m.pathIndex)).toEqual([1, 2, 0]);
+		expect(groups[0].spacings[0]).toBeCloseTo(0);
+		expect(groups[0].spacings[1]).toBeCloseTo(20);
+		expect(groups[0].spacings[2]).toBeCloseTo(40);
+		expect(groups[0].turnAngle).toBeCloseTo(90);
+	});
+
+	it('leaves tracks further apart than the pitch alone', () => {
+		expect(findConcentricGroups(BUS, 15).groups).toEqual([]);
+	});
+
+	it('leaves tracks on other layers alone', () => {
+		expect(findConcentricGroups([BUS[1], { ...BUS[2], layer: 2 }], 25).groups).toEqual([]);
+	});
+
+	it('rejects tracks whose spacing changes through the bend', () => {
+		const skewed = corner(2, { x: 0, y: -20 }, { x: 130, y: -20 }, { x: 130, y: 100 });
+		const { groups, rejected } = findConcentricGroups([BUS[1], skewed], 35);
+		expect(groups).toEqual([]);
+		expect(rejected[0].reason).toContain('spacing changes');
+	});
+});
+
+describe('getConcentricTangentDistances', () => {
+	it('adds each spacing to the inner radius', () => {
+		const group: ConcentricGroup = { members: BUS, spacings: [0, 20, 40], turnAngle: 90 };
+		const dists = getConcentricTangentDistances(group, 10);
+		expect(dists[0]).toBeCloseTo(10);
+		expect(dists[1]).toBeCloseTo(30);
+		expect(dists[2]).toBeCloseTo(50);
+	});
+});
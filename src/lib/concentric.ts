@@ -0,0 +1,196 @@
+/**
+ * Concentric Corners
+ * Finds parallel tracks (differential pairs, buses) that bend together on the same layer,
+ * so their corners can share one arc centre and keep a constant gap through the bend.
+ */
+
+import type { Point } from './math';
+import { getAngleBetween } from './math';
+
+const ANGLE_TOLERANCE = 1; // Max direction difference between parallel tracks (degrees)
+const SPACING_TOLERANCE = 0.1; // Max spacing change through the bend (mil)
+
+/**
+ * One corner of a path, as seen by the concentric grouping
+ */
+export interface ConcentricCorner {
+	pathIndex: number;
+	cornerIndex: number; // Index of the corner point within the path
+	layer: number;
+	prev: Point;
+	corner: Point;
+	next: Point;
+	width: number; // Widest adjacent track width (mil)
+}
+
+/**
+ * Corners that turn together, ordered from the innermost to the outermost track
+ */
+export interface ConcentricGroup {
+	members: ConcentricCorner[];
+	spacings: number[]; // Perpendicular distance of each member from the innermost track (mil)
+	turnAngle: number; // Signed turn angle of the innermost track (degrees)
+}
+
+/**
+ * Group of parallel corners that cannot share a centre
+ */
+export interface ConcentricRejection {
+	members: ConcentricCorner[];
+	reason: string;
+}
+
+interface CornerInfo {
+	corner: ConcentricCorner;
+	dirIn: Point;
+	dirOut: Point;
+	turn: number;
+}
+
+function unitVector(from: Point, to: Point): Point | null {
+	const len = Math.sqrt((to.x - from.x) ** 2 + (to.y - from.y) ** 2);
+	if (len < 0.001)
+		return null;
+	return { x: (to.x - from.x) / len, y: (to.y - from.y) / len };
+}
+
+function cross(a: Point, b: Point): number {
+	return a.x * b.y - a.y * b.x;
+}
+
+/**
+ * Whether two corners belong to parallel tracks that turn together within the pitch
+ */
+function isParallelTurn(a: CornerInfo, b: CornerInfo, pitch: number): boolean {
+	if (a.corner.pathIndex === b.corner.pathIndex)
+		return false;
+	if (Math.abs(getAngleBetween(a.dirIn, b.dirIn)) > ANGLE_TOLERANCE)
+		return false;
+	if (Math.abs(getAngleBetween(a.dirOut, b.dirOut)) > ANGLE_TOLERANCE)
+		return false;
+
+	// Side offsets of b from a, before and after the bend
+	const delta = { x: b.corner.corner.x - a.corner.corner.x, y: b.corner.corner.y - a.corner.corner.y };
+	const offsetIn = cross(a.dirIn, delta);
+	const offsetOut = cross(a.dirOut, delta);
+	if (Math.abs(offsetIn) < SPACING_TOLERANCE || Math.abs(offsetOut) < SPACING_TOLERANCE)
+		return false;
+	// Tracks that swap sides cross each other, never a bus
+	if (offsetIn * offsetOut < 0)
+		return false;
+	return Math.abs(offsetIn) <= pitch && Math.abs(offsetOut) <= pitch;
+}
+
+/**
+ * Find corners of parallel tracks that turn together.
+ * Corners on the same layer whose tracks run parallel before and after the bend,
+ * within `pitch` of each other (chained, so a bus forms one group), are grouped.
+ * @param corners Candidate corners of all paths
+ * @param pitch Max centre-to-centre spacing between neighbouring tracks (mil)
+ */
+export function findConcentricGroups(
+	corners: ConcentricCorner[],
+	pitch: number,
+): { groups: ConcentricGroup[]; rejected: ConcentricRejection[] } {
+	const groups: ConcentricGroup[] = [];
+	const rejected: ConcentricRejection[] = [];
+
+	// Group candidates by layer, dropping straight and U-turn corners
+	const byLayer = new Map<number, CornerInfo[]>();
+	for (const corner of corners) {
+		const dirIn = unitVector(corner.prev, corner.corner);
+		const dirOut = unitVector(corner.corner, corner.next);
+		if (!dirIn || !dirOut)
+			continue;
+		const turn = getAngleBetween(dirIn, dirOut);
+		if (Math.abs(turn) < ANGLE_TOLERANCE || Math.abs(turn) > 180 - ANGLE_TOLERANCE)
+			continue;
+		if (!byLayer.has(corner.layer))
+			byLayer.set(corner.layer, []);
+		byLayer.get(corner.layer)!.push({ corner, dirIn, dirOut, turn });
+	}
+
+	for (const infos of byLayer.values()) {
+		// Union-find over neighbouring corners
+		const parent = infos.map((_, i) => i);
+		const find = (i: number): number => {
+			while (parent[i] !== i) {
+				parent[i] = parent[parent[i]];
+				i = parent[i];
+			}
+			return i;
+		};
+
+		for (let i = 0; i < infos.length; i++) {
+			for (let j = i + 1; j < infos.length; j++) {
+				if (isParallelTurn(infos[i], infos[j], pitch))
+					parent[find(i)] = find(j);
+			}
+		}
+
+		const components = new Map<number, CornerInfo[]>();
+		for (let i = 0; i < infos.length; i++) {
+			const root = find(i);
+			if (!components.has(root))
+				components.set(root, []);
+			components.get(root)!.push(infos[i]);
+		}
+
+		for (const members of components.values()) {
+			if (members.length < 2)
+				continue;
+
+			// Order from the inside of the bend outwards (along the inward bisector)
+			const ref = members[0];
+			const bisector = { x: ref.dirOut.x - ref.dirIn.x, y: ref.dirOut.y - ref.dirIn.y };
+			members.sort((a, b) =>
+				(b.corner.corner.x * bisector.x + b.corner.corner.y * bisector.y)
+				- (a.corner.corner.x * bisector.x + a.corner.corner.y * bisector.y),
+			);
+			const inner = members[0];
+			const memberCorners = members.map(m => m.corner);
+
+			if (new Set(memberCorners.map(c => c.pathIndex)).size !== memberCorners.length) {
+				rejected.push({ members: memberCorners, reason: 'a track bends more than once inside the group' });
+				continue;
+			}
+
+			const spacings: number[] = [];
+			let reason = '';
+			for (const member of members) {
+				const delta = {
+					x: member.corner.corner.x - inner.corner.corner.x,
+					y: member.corner.corner.y - inner.corner.corner.y,
+				};
+				const spacingIn = Math.abs(cross(inner.dirIn, delta));
+				const spacingOut = Math.abs(cross(inner.dirOut, delta));
+				if (Math.abs(spacingIn - spacingOut) > SPACING_TOLERANCE) {
+					reason = `spacing changes through the bend (${spacingIn.toFixed(2)} -> ${spacingOut.toFixed(2)} mil)`;
+					break;
+				}
+				spacings.push(spacingIn);
+			}
+
+			if (reason) {
+				rejected.push({ members: memberCorners, reason });
+				continue;
+			}
+
+			groups.push({ members: memberCorners, spacings, turnAngle: inner.turn });
+		}
+	}
+
+	return { groups, rejected };
+}
+
+/**
+ * Tangent distances of a group sharing one centre.
+ * The innermost track gets `innerRadius`, every other track that plus its spacing.
+ * @param group Concentric group
+ * @param innerRadius Arc radius of the innermost track (mil)
+ */
+export function getConcentricTangentDistances(group: ConcentricGroup, innerRadius: number): number[] {
+	// d = R / tan(includedAngle / 2) = R * tan(turn / 2)
+	const tanHalfTurn = Math.tan((Math.abs(group.turnAngle) * Math.PI) / 360);
+	return group.spacings.map(spacing => (innerRadius + spacing) * tanHalfTurn);
+}
@@ -0,0 +1,47 @@
+import { describe, expect, it } from 'vitest';
+import { addPoint, createNodeKeys, createPointIndex, findNear, isConnected } from './connectivity';
+
+describe('findNear', () => {
+	it('returns items within the tolerance, nearest first', () => {
+		const index = createPointIndex<string>(0.01);
+		addPoint(index, { x: 1.008, y: 1 }, 'far');
+		addPoint(index, { x: 1.002, y: 1 }, 'near');
+		addPoint(index, { x: 1.02, y: 1 }, 'out');
+		expect(findNear(index, { x: 1, y: 1 })).toEqual(['near', 'far']);
+	});
+
+	it('finds points across grid cell borders', () => {
+		const index = createPointIndex<string>(0.01);
+		addPoint(index, { x: -0.003, y: 0.003 }, 'a');
+		expect(findNear(index, { x: 0.003, y: -0.003 })).toEqual(['a']);
+	});
+});
+
+describe('isConnected', () => {
+	it('compares the distance with the tolerance', () => {
+		expect(isConnected({ x: 0, y: 0 }, { x: 0.006, y: 0.008 }, 0.01)).toBe(true);
+		expect(isConnected({ x: 0, y: 0 }, { x: 0.011, y: 0 }, 0.01)).toBe(false);
+	});
+});
+
+describe('createNodeKeys', () => {
+	it('gives points within the tolerance the same key', () => {
+		const nodeKey = createNodeKeys(0.01);
+		const a = nodeKey({ x: 10, y: 20 });
+		expect(nodeKey({ x: 10.004, y: 19.996 })).toBe(a);
+		expect(nodeKey({ x: 10.02, y: 20 })).not.toBe(a);
+	});
+
+	it('keeps one key across grid cell borders', () => {
+		const nodeKey = createNodeKeys(0.01);
+		const a = nodeKey({ x: 0.0099, y: 0 });
+		expect(nodeKey({ x: 0.0101, y: 0 })).toBe(a);
+	});
+
+	it('does not chain points through one another', () => {
+		const nodeKey = createNodeKeys(0.01);
+		const a = nodeKey({ x: 0, y: 0 });
+		expect(nodeKey({ x: 0.008, y: 0 })).toBe(a);
+		expect(nodeKey({ x: 0.016, y: 0 })).not.toBe(a);
+	});
+});
@@ -0,0 +1,96 @@
+/**
+ * Connectivity
+ * Decides which endpoints are connected, with one snap tolerance shared by smoothing,
+ * clean-up, width transitions and teardrops. Endpoint lookups go through a grid hash,
+ * so they stay fast on large boards.
+ */
+
+import type { Point } from './math';
+import { dist } from './math';
+
+const MIN_CELL_SIZE = 1e-6; // Grid cell size floor for a zero tolerance (mil)
+
+/**
+ * Grid hash of points, each carrying an item
+ */
+export interface PointIndex<T> {
+	tolerance: number; // Max distance (mil) at which a query finds a point
+	cellSize: number;
+	cells: Map<string, { point: Point; item: T }[]>;
+}
+
+function cellKey(cx: number, cy: number): string {
+	return `${cx},${cy}`;
+}
+
+/**
+ * Create an empty point index
+ * @param tolerance Max distance (mil) at which points count as connected
+ */
+export function createPointIndex<T>(tolerance: number): PointIndex<T> {
+	return { tolerance, cellSize: Math.max(tolerance, MIN_CELL_SIZE), cells: new Map() };
+}
+
+/**
+ * Add a point to the index
+ * @param index Point index
+ * @param point Point to add
+ * @param item Item returned by queries that find the point
+ */
+export function addPoint<T>(index: PointIndex<T>, point: Point, item: T): void {
+	const key = cellKey(Math.floor(point.x / index.cellSize), Math.floor(point.y / index.cellSize));
+	if (!index.cells.has(key))
+		index.cells.set(key, []);
+	index.cells.get(key)!.push({ point, item });
+}
+
+/**
+ * Items of all points within the tolerance of a point, nearest first
+ * @param index Point index
+ * @param point Query point
+ */
+export function findNear<T>(index: PointIndex<T>, point: Point): T[] {
+	const cx = Math.floor(point.x / index.cellSize);
+	const cy = Math.floor(point.y / index.cellSize);
+	const found: { d: number; item: T }[] = [];
+	// The cell size is at least the tolerance, so the neighbouring cells hold every match
+	for (let dx = -1; dx <= 1; dx++) {
+		for (let dy = -1; dy <= 1; dy++) {
+			for (const entry of index.cells.get(cellKey(cx + dx, cy + dy)) || []) {
+				const d = dist(entry.point, point);
+				if (d <= index.tolerance)
+					found.push({ d, item: entry.item });
+			}
+		}
+	}
+	return found.sort((a, b) => a.d - b.d).map(entry => entry.item);
+}
+
+/**
+ * Whether two endpoints are connected
+ * @param a First point
+ * @param b Second point
+ * @param tolerance Snap tolerance (mil)
+ */
+export function isConnected(a: Point, b: Point, tolerance: number): boolean {
+	return dist(a, b) <= tolerance;
+}
+
+/**
+ * Node key function: a point within the tolerance of an earlier point gets that
+ * point's key, any other point starts a new node. Use one function per group of
+ * tracks, so the keys of that group agree.
+ * @param tolerance Snap tolerance (mil)
+ */
+export function createNodeKeys(tolerance: number): (p: Point) => string {
+	const nodes = createPointIndex<string>(tolerance);
+	let count = 0;
+	return (p: Point) => {
+		const existing = findNear(nodes, p)[0];
+		if (existing !== undefined)
+			return existing;
+		const key = `n${count++}`;
+		addPoint(nodes, p, key);
+		return key;
+	};
+}
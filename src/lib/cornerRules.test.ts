@@ -0,0 +1,68 @@
+import type { CornerRule } from './settings';
+import { describe, expect, it } from 'vitest';
+import { matchNetPattern, resolveCornerParams, rulesNeedNetClasses } from './cornerRules';
+import { getDefaultSettings } from './settings';
+
+function rule(changes: Partial<CornerRule>): CornerRule {
+	return { enabled: true, net: '', netClass: '', layer: null, radius: 5, forceArc: false, mergeShortSegments: false, ...changes };
+}
+
+describe('matchNetPattern', () => {
+	it('matches globs without regard to case', () => {
+		expect(matchNetPattern('usb_*', 'USB_DP')).toBe(true);
+		expect(matchNetPattern('DDR_DQ?', 'DDR_DQ1')).toBe(true);
+		expect(matchNetPattern('DDR_DQ?', 'DDR_DQ10')).toBe(false);
+	});
+
+	it('treats other characters literally', () => {
+		expect(matchNetPattern('USB_D+', 'USB_D+')).toBe(true);
+		expect(matchNetPattern('USB_D+', 'USB_DD')).toBe(false);
+	});
+
+	it('matches regular expressions between slashes', () => {
+		expect(matchNetPattern('/^USB_D[PN]$/i', 'usb_dn')).toBe(true);
+		expect(matchNetPattern('/^USB_D[PN]$/', 'USB_DX')).toBe(false);
+	});
+
+	it('matches every net with an empty pattern', () => {
+		expect(matchNetPattern('  ', 'GND')).toBe(true);
+	});
+});
+
+describe('resolveCornerParams', () => {
+	it('falls back to the global settings', () => {
+		const params = resolveCornerParams(getDefaultSettings(), 'GND', 1);
+		expect(params.radius).toBe(getDefaultSettings().cornerRadius);
+		expect(params.ruleLabel).toBe('global settings');
+	});
+
+	it('takes the first enabled rule that matches', () => {
+		const settings = {
+			...getDefaultSettings(),
+			cornerRules: [
+				rule({ enabled: false, net: 'USB*', radius: 1 }),
+				rule({ net: 'USB*', layer: 2, radius: 2 }),
+				rule({ net: 'USB*', radius: 3 }),
+				rule({ radius: 4 }),
+			],
+		};
+		expect(resolveCornerParams(settings, 'USB_DP', 1).radius).toBe(3);
+		expect(resolveCornerParams(settings, 'USB_DP', 2).radius).toBe(2);
+		expect(resolveCornerParams(settings, 'GND', 1).radius).toBe(4);
+	});
+
+	it('matches net classes', () => {
+		const settings = { ...getDefaultSettings(), cornerRules: [rule({ netClass: 'Power', radius: 30 })] };
+		const classes = new Map([['VCC', ['Power']]]);
+		expect(resolveCornerParams(settings, 'VCC', 1, classes).radius).toBe(30);
+		expect(resolveCornerParams(settings, 'SIG', 1, classes).ruleLabel).toBe('global settings');
+	});
+});
+
+describe('rulesNeedNetClasses', () => {
+	it('only asks for net classes when an enabled rule uses them', () => {
+		expect(rulesNeedNetClasses([rule({ netClass: 'Power', enabled: false })])).toBe(false);
+		expect(rulesNeedNetClasses([rule({ netClass: 'Power' })])).toBe(true);
+		expect(rulesNeedNetClasses(undefined)).toBe(false);
+	});
+});
@@ -0,0 +1,134 @@
+/**
+ * Corner Radius Rules
+ * Maps net name patterns, net classes and layers to their own corner radius,
+ * force-arc and merge behaviour, so different nets can be smoothed in a single run.
+ */
+
+import type { BeautifySettings, CornerRule } from './settings';
+import { debugLog } from './logger';
+
+/**
+ * Effective corner parameters for one net/layer group
+ */
+export interface CornerParams {
+	radius: number; // Corner radius (in settings unit)
+	forceArc: boolean;
+	mergeShortSegments: boolean;
+	ruleLabel: string; // Description of the matched rule, for logging
+}
+
+/**
+ * Check whether a net name matches a pattern.
+ * Patterns wrapped in slashes (e.g. /^USB_D[PN]$/i) are regular expressions,
+ * anything else is a case-insensitive glob supporting * and ?.
+ * @param pattern Net pattern
+ * @param net Net name
+ */
+export function matchNetPattern(pattern: string, net: string): boolean {
+	const trimmed = pattern.trim();
+	if (!trimmed)
+		return true;
+
+	const regexMatch = /^\/(.+)\/([a-z]*)$/.exec(trimmed);
+	if (regexMatch) {
+		try {
+			return new RegExp(regexMatch[1], regexMatch[2]).test(net);
+		}
+		catch {
+			debugLog(`Invalid net regex: ${trimmed}`, 'Rules');
+			return false;
+		}
+	}
+
+	const escaped = trimmed
+		.replace(/[.+^${}()|[\]\\]/g, '\\$&')
+		.replace(/\*/g, '.*')
+		.replace(/\?/g, '.');
+	return new RegExp(`^${escaped}$`, 'i').test(net);
+}
+
+/**
+ * Get the net class membership of every net (net -> class names)
+ */
+export async function getNetClassMap(): Promise<Map<string, string[]>> {
+	const map = new Map<string, string[]>();
+	try {
+		const classes = await eda.pcb_Drc.getAllNetClasses();
+		for (const netClass of classes || []) {
+			for (const net of netClass.nets || []) {
+				if (!map.has(net))
+					map.set(net, []);
+				map.get(net)!.push(netClass.name);
+			}
+		}
+	}
+	catch (e: any) {
+		debugLog(`Failed to read net classes: ${e.message || e}`, 'Rules');
+	}
+	return map;
+}
+
+/**
+ * Whether any enabled rule needs net class information
+ */
+export function rulesNeedNetClasses(rules: CornerRule[] | undefined): boolean {
+	return !!rules && rules.some(r => r.enabled && r.netClass.trim() !== '');
+}
+
+/**
+ * Describe a rule for log output
+ */
+function describeRule(rule: CornerRule, index: number): string {
+	const parts = [
+		`net=${rule.net || '*'}`,
+		`class=${rule.netClass || '*'}`,
+		`layer=${rule.layer ?? '*'}`,
+	];
+	return `rule #${index + 1} (${parts.join(', ')})`;
+}
+
+/**
+ * Resolve corner parameters for a net/layer group.
+ * Rules are checked in order and the first enabled match wins;
+ * without a match the global settings are used.
+ * @param settings Extension settings
+ * @param net Net name
+ * @param layer Layer ID
+ * @param netClasses Net class membership (from getNetClassMap)
+ */
+export function resolveCornerParams(
+	settings: BeautifySettings,
+	net: string,
+	layer: number,
+	netClasses?: Map<string, string[]>,
+): CornerParams {
+	const rules = settings.cornerRules || [];
+	for (let i = 0; i < rules.length; i++) {
+		const rule = rules[i];
+		if (!rule || !rule.enabled)
+			continue;
+		if (rule.layer !== null && rule.layer !== undefined && Number(rule.layer) !== Number(layer))
+			continue;
+		if (rule.netClass && rule.netClass.trim()) {
+			const classes = netClasses?.get(net) || [];
+			if (!classes.includes(rule.netClass.trim()))
+				continue;
+		}
+		if (!matchNetPattern(rule.net || '', net))
+			continue;
+
+		return {
+			radius: rule.radius,
+			forceArc: rule.forceArc,
+			mergeShortSegments: rule.mergeShortSegments,
+			ruleLabel: describeRule(rule, i),
+		};
+	}
+
+	return {
+		radius: settings.cornerRadius,
+		forceArc: settings.forceArc,
+		mergeShortSegments: settings.mergeShortSegments,
+		ruleLabel: 'global settings',
+	};
+}
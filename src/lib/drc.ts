@@ -1,4 +1,8 @@
-import { debugLog, debugWarn } from './logger';
+import type { Capsule, ClearanceObstacle } from './clearance';
+import type { Point } from './math';
+import { arcToCapsules, createObstacle } from './clearance';
+import { debugLog, debugWarn, logWarn } from './logger';
+import { rotateVector } from './math';
 import { getSettings } from './settings';
 
 // Removed prepareDrcRules and cachedRules as per new strategy
@@ -120,3 +124,200 @@ export async function runDrcCheckAndParse(): Promise<Set<string>> {
 		return violatedIds;
 	}
 }
+
+const MULTI_LAYER = 12; // EPCB_LayerId.MULTI, through-hole pads
+
+/**
+ * Outline of a polygon source array (`x y L x y ...`, `ARC`/`CARC`, `C`, `R` and `CIRCLE` modes).
+ * Arcs and curves keep only their end and control points, which is close enough for a clearance check.
+ */
+function parsePolygonSource(source: TPCB_PolygonSourceArray): { points: Point[]; circles: Capsule[] } {
+	const points: Point[] = [];
+	const circles: Capsule[] = [];
+	let i = 0;
+	const num = () => Number(source[i++]);
+	while (i < source.length) {
+		const token = source[i];
+		if (token === 'R') {
+			i++;
+			const x = num();
+			const y = num();
+			const w = num();
+			const h = num();
+			const rot = num();
+			i++; // Corner radius
+			for (const corner of [{ x: 0, y: 0 }, { x: w, y: 0 }, { x: w, y: -h }, { x: 0, y: -h }]) {
+				const r = rotateVector(corner, rot || 0);
+				points.push({ x: x + r.x, y: y + r.y });
+			}
+		}
+		else if (token === 'CIRCLE') {
+			i++;
+			const center = { x: num(), y: num() };
+			circles.push({ start: center, end: center, radius: num() });
+		}
+		else if (token === 'ARC' || token === 'CARC') {
+			i += 2; // Arc angle
+			points.push({ x: num(), y: num() });
+		}
+		else if (typeof token === 'number' && typeof source[i + 1] === 'number') {
+			points.push({ x: num(), y: num() });
+		}
+		else {
+			i++; // 'L', 'C' or stray values
+		}
+	}
+	return { points, circles };
+}
+
+/**
+ * Copper of a pad: circles and ovals become capsules, rectangles polygons,
+ * anything else its bounding circle
+ */
+function getPadObstacle(pad: IPCB_PrimitivePad): ClearanceObstacle | null {
+	const shape = pad.getState_Pad();
+	if (!Array.isArray(shape))
+		return null;
+	const center = { x: pad.getState_X(), y: pad.getState_Y() };
+	const rotation = pad.getState_Rotation() || 0;
+	const layer = Number(pad.getState_Layer());
+	const id = pad.getState_PrimitiveId();
+	const net = pad.getState_Net() || '';
+	const padLayer = layer === MULTI_LAYER ? null : layer;
+
+	// Shape types are compared by value: the SDK enums are not available at runtime
+	const type: string = shape[0];
+	if (type === 'POLYGON') {
+		const source = shape[1] as TPCB_PolygonSourceArray | TPCB_PolygonSourceArray[];
+		const { points } = parsePolygonSource(source.flat());
+		const radius = Math.max(0, ...points.map(p => Math.sqrt(p.x ** 2 + p.y ** 2)));
+		return radius > 0 ? createObstacle(id, net, padLayer, [{ start: center, end: center, radius }]) : null;
+	}
+
+	const [, w, h] = shape as [string, number, number];
+	if (type === 'RECT') {
+		const polygon = [{ x: -w / 2, y: -h / 2 }, { x: w / 2, y: -h / 2 }, { x: w / 2, y: h / 2 }, { x: -w / 2, y: h / 2 }]
+			.map((p) => {
+				const r = rotateVector(p, rotation);
+				return { x: center.x + r.x, y: center.y + r.y };
+			});
+		return createObstacle(id, net, padLayer, [], polygon);
+	}
+	if (type === 'ELLIPSE' || type === 'OVAL') {
+		// Oval: a capsule along the longer side
+		const half = Math.abs(w - h) / 2;
+		const axis = rotateVector(w >= h ? { x: half, y: 0 } : { x: 0, y: half }, rotation);
+		return createObstacle(id, net, padLayer, [{
+			start: { x: center.x - axis.x, y: center.y - axis.y },
+			end: { x: center.x + axis.x, y: center.y + axis.y },
+			radius: Math.min(w, h) / 2,
+		}]);
+	}
+
+	const radius = Math.max(w, h) / 2;
+	return radius > 0 ? createObstacle(id, net, padLayer, [{ start: center, end: center, radius }]) : null;
+}
+
+/**
+ * Collect board copper that new corner geometry must keep clear of:
+ * tracks, arcs, pads (free and component), vias and fills
+ * @param layers Copper layers that get new geometry
+ * @param getArcWidth Correct line width of an arc (see getArcLineWidthMap), if known
+ */
+export async function collectClearanceObstacles(
+	layers: Set<number>,
+	getArcWidth: (arcId: string) => number | undefined,
+): Promise<ClearanceObstacle[]> {
+	const obstacles: ClearanceObstacle[] = [];
+	const onLayer = (layer: number) => layers.has(Number(layer));
+	const failed: string[] = [];
+
+	// Each kind of copper is read on its own, so one failure does not drop the rest
+	const collect = async (kind: string, read: () => Promise<void>) => {
+		try {
+			await read();
+		}
+		catch (e: any) {
+			failed.push(kind);
+			debugWarn(`Failed to collect ${kind} for clearance check: ${e.message || e}`, 'DRC');
+		}
+	};
+
+	await collect('tracks', async () => {
+		for (const line of await eda.pcb_PrimitiveLine.getAll() || []) {
+			if (!onLayer(line.getState_Layer()))
+				continue;
+			obstacles.push(createObstacle(line.getState_PrimitiveId(), line.getState_Net() || '', Number(line.getState_Layer()), [{
+				start: { x: line.getState_StartX(), y: line.getState_StartY() },
+				end: { x: line.getState_EndX(), y: line.getState_EndY() },
+				radius: line.getState_LineWidth() / 2,
+			}]));
+		}
+	});
+
+	await collect('arcs', async () => {
+		for (const arc of await eda.pcb_PrimitiveArc.getAll() || []) {
+			if (!onLayer(arc.getState_Layer()))
+				continue;
+			const id = arc.getState_PrimitiveId();
+			const width = getArcWidth(id) ?? arc.getState_LineWidth();
+			obstacles.push(createObstacle(id, arc.getState_Net() || '', Number(arc.getState_Layer()), arcToCapsules(
+				{ x: arc.getState_StartX(), y: arc.getState_StartY() },
+				{ x: arc.getState_EndX(), y: arc.getState_EndY() },
+				arc.getState_ArcAngle(),
+				width / 2,
+			)));
+		}
+	});
+
+	await collect('vias', async () => {
+		for (const via of await eda.pcb_PrimitiveVia.getAll() || []) {
+			const center = { x: via.getState_X(), y: via.getState_Y() };
+			obstacles.push(createObstacle(via.getState_PrimitiveId(), via.getState_Net() || '', null, [
+				{ start: center, end: center, radius: via.getState_Diameter() / 2 },
+			]));
+		}
+	});
+
+	const pads: IPCB_PrimitivePad[] = [];
+	await collect('pads', async () => {
+		pads.push(...(await eda.pcb_PrimitivePad.getAll() || []));
+	});
+	await collect('components', async () => {
+		for (const component of await eda.pcb_PrimitiveComponent.getAll() || []) {
+			const id = component.getState_PrimitiveId();
+			await collect(`pins of ${id}`, async () => {
+				pads.push(...(await eda.pcb_PrimitiveComponent.getAllPinsByPrimitiveId(id) || []));
+			});
+		}
+	});
+	for (const pad of pads) {
+		await collect(`pad ${pad.getState_PrimitiveId()}`, async () => {
+			const obstacle = getPadObstacle(pad);
+			if (obstacle && (obstacle.layer === null || onLayer(obstacle.layer)))
+				obstacles.push(obstacle);
+		});
+	}
+
+	await collect('fills', async () => {
+		for (const fill of await eda.pcb_PrimitiveFill.getAll() || []) {
+			if (!onLayer(fill.getState_Layer()))
+				continue;
+			const source: TPCB_PolygonSourceArray | TPCB_PolygonSourceArray[] = fill.getState_ComplexPolygon()?.getSource() || [];
+			// Complex polygons are lists of outlines, simple ones a single flat outline
+			const outlines = (Array.isArray(source[0]) ? source : [source]) as TPCB_PolygonSourceArray[];
+			for (const outline of outlines) {
+				const { points, circles } = parsePolygonSource(outline);
+				obstacles.push(createObstacle(fill.getState_PrimitiveId(), fill.getState_Net() || '', Number(fill.getState_Layer()), circles, points));
+			}
+		}
+	});
+
+	if (failed.length > 0) {
+		logWarn(`Clearance check is missing copper it could not read: ${failed.join(', ')}`, 'DRC');
+		eda.sys_Message?.showToastMessage(eda.sys_I18n.text('部分铜皮读取失败，间距检查可能不完整'));
+	}
+
+	debugLog(`Collected ${obstacles.length} copper obstacles for clearance check`, 'DRC');
+	return obstacles;
+}
@@ -54,3 +54,36 @@ export async function getSafeSelectedTracks(selectedIds: string[]): Promise<any[
 
 	return selectedTracks;
 }
+
+/**
+ * Safely get selected arc objects.
+ * Same fallback strategy as getSafeSelectedTracks.
+ * @param selectedIds List of selected primitive IDs
+ */
+export async function getSafeSelectedArcs(selectedIds: string[]): Promise<any[]> {
+	const validIds = selectedIds.filter(id => id && typeof id === 'string');
+	if (validIds.length === 0)
+		return [];
+
+	let arcObjects: any = null;
+	try {
+		arcObjects = await eda.pcb_PrimitiveArc.get(validIds);
+	}
+	catch (err: any) {
+		debugLog(`[SafeGet] arc get() failed, trying getAll() fallback: ${err.message}`);
+		try {
+			const allArcs = await eda.pcb_PrimitiveArc.getAll();
+			if (Array.isArray(allArcs)) {
+				const idSet = new Set(validIds);
+				arcObjects = allArcs.filter((arc: any) => idSet.has(arc.getState_PrimitiveId()));
+			}
+		}
+		catch (e2: any) {
+			logError(`[SafeGet Error] Arc fallback getAll() also failed: ${e2.message}`);
+		}
+	}
+
+	if (!arcObjects)
+		return [];
+	return (Array.isArray(arcObjects) ? arcObjects : [arcObjects]).filter((p: any) => p !== null && p !== undefined);
+}
@@ -0,0 +1,70 @@
+import type { TaperProfile } from './math';
+import { describe, expect, it } from 'vitest';
+import { getArcCenter, getArcMidpoint, klopfensteinStep, taperWidth } from './math';
+
+const PROFILES: TaperProfile[] = ['smooth', 'linear', 'exponential', 'klopfenstein', 'bezier'];
+
+describe('taperWidth', () => {
+	it.each(PROFILES)('%s runs from one width to the other', (profile) => {
+		expect(taperWidth(profile, 30, 10, 0)).toBe(30);
+		expect(taperWidth(profile, 30, 10, 1)).toBe(10);
+	});
+
+	it.each(PROFILES)('%s narrows steadily', (profile) => {
+		let previous = 30;
+		for (let k = 1; k <= 20; k++) {
+			const width = taperWidth(profile, 30, 10, k / 20);
+			expect(width).toBeLessThanOrEqual(previous + 1e-9);
+			previous = width;
+		}
+	});
+
+	it('halves a linear taper in the middle', () => {
+		expect(taperWidth('linear', 30, 10, 0.5)).toBeCloseTo(20);
+	});
+
+	it('takes the geometric mean in the middle of an exponential taper', () => {
+		expect(taperWidth('exponential', 40, 10, 0.5)).toBeCloseTo(20);
+	});
+
+	it('follows the bezier control values', () => {
+		// Control values 1/3 and 2/3 make the cubic a straight line
+		expect(taperWidth('bezier', 30, 10, 0.25, [1 / 3, 2 / 3])).toBeCloseTo(25);
+	});
+});
+
+describe('klopfensteinStep', () => {
+	it('is point-symmetric about the middle', () => {
+		expect(klopfensteinStep(0.5, 3)).toBeCloseTo(0.5);
+		for (const t of [0.1, 0.25, 0.4])
+			expect(klopfensteinStep(t, 3) + klopfensteinStep(1 - t, 3)).toBeCloseTo(1);
+	});
+
+	it('steps at both ends, as the taper is designed to', () => {
+		expect(klopfensteinStep(0, 3)).toBeCloseTo(0.0455, 3);
+		expect(klopfensteinStep(1, 3)).toBeCloseTo(0.9545, 3);
+	});
+
+	it('falls back to a plain exponential for steps within the ripple', () => {
+		expect(klopfensteinStep(0.3, 1.05)).toBe(0.3);
+	});
+});
+
+describe('getArcMidpoint', () => {
+	it('bulges away from the centre of the arc', () => {
+		const start = { x: 10, y: 0 };
+		const end = { x: 0, y: 10 };
+		const mid = getArcMidpoint(start, end, 90);
+		const center = getArcCenter(start, end, 90);
+		expect(center.x).toBeCloseTo(0);
+		expect(center.y).toBeCloseTo(0);
+		expect(mid.x).toBeCloseTo(10 * Math.SQRT1_2);
+		expect(mid.y).toBeCloseTo(10 * Math.SQRT1_2);
+	});
+
+	it('mirrors for clockwise arcs', () => {
+		const mid = getArcMidpoint({ x: 0, y: 10 }, { x: 10, y: 0 }, -90);
+		expect(mid.x).toBeCloseTo(10 * Math.SQRT1_2);
+		expect(mid.y).toBeCloseTo(10 * Math.SQRT1_2);
+	});
+});
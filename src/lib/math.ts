@@ -3,6 +3,13 @@ export interface Point {
 	y: number;
 }
 
+/**
+ * How the width changes along a width transition
+ */
+export type TaperProfile = 'smooth' | 'linear' | 'exponential' | 'klopfenstein' | 'bezier';
+
+const KLOPFENSTEIN_RIPPLE = 0.05; // Max passband reflection coefficient of a Klopfenstein taper (-26 dB)
+
 /**
  * Compare whether two floating-point numbers are close enough
  * @param a First number
@@ -24,6 +31,20 @@ export function lerp(p1: Point, p2: Point, t: number): Point {
 	};
 }
 
+/**
+ * Shortest distance from a point to a segment
+ * @param p Point
+ * @param a Segment start
+ * @param b Segment end
+ */
+export function pointSegmentDistance(p: Point, a: Point, b: Point): number {
+	const lenSq = (b.x - a.x) ** 2 + (b.y - a.y) ** 2;
+	if (lenSq < 1e-12)
+		return dist(p, a);
+	const t = Math.max(0, Math.min(1, ((p.x - a.x) * (b.x - a.x) + (p.y - a.y) * (b.y - a.y)) / lenSq));
+	return dist(p, { x: a.x + t * (b.x - a.x), y: a.y + t * (b.y - a.y) });
+}
+
 /**
  * Calculate angle (0-360)
  */
@@ -41,6 +62,55 @@ export function getAngleBetween(v1: Point, v2: Point): number {
 	return angle;
 }
 
+/**
+ * Rotate a vector by an angle (degrees, counterclockwise positive)
+ */
+export function rotateVector(v: Point, angleDeg: number): Point {
+	const rad = (angleDeg * Math.PI) / 180;
+	const cos = Math.cos(rad);
+	const sin = Math.sin(rad);
+	return {
+		x: v.x * cos - v.y * sin,
+		y: v.x * sin + v.y * cos,
+	};
+}
+
+/**
+ * Centre of an arc; it sits left of the chord for counter-clockwise (positive) arcs
+ * @param start Arc start point
+ * @param end Arc end point
+ * @param arcAngle Signed arc angle (degrees), from start to end
+ */
+export function getArcCenter(start: Point, end: Point, arcAngle: number): Point {
+	const chordLen = dist(start, end);
+	const halfRad = (arcAngle * Math.PI) / 360;
+	const normal = rotateVector({ x: (end.x - start.x) / chordLen, y: (end.y - start.y) / chordLen }, 90);
+	const offset = chordLen / 2 / Math.tan(halfRad);
+	return {
+		x: (start.x + end.x) / 2 + normal.x * offset,
+		y: (start.y + end.y) / 2 + normal.y * offset,
+	};
+}
+
+/**
+ * Midpoint of an arc; it bulges away from its centre by the sagitta
+ * @param start Arc start point
+ * @param end Arc end point
+ * @param arcAngle Signed arc angle (degrees), from start to end
+ */
+export function getArcMidpoint(start: Point, end: Point, arcAngle: number): Point {
+	const chordMid = lerp(start, end, 0.5);
+	const chordLen = dist(start, end);
+	if (chordLen < 0.001)
+		return chordMid;
+	const sagitta = (chordLen / 2) * Math.tan((Math.abs(arcAngle) * Math.PI) / 720);
+	const outward = rotateVector(
+		{ x: (end.x - start.x) / chordLen, y: (end.y - start.y) / chordLen },
+		arcAngle > 0 ? -90 : 90,
+	);
+	return { x: chordMid.x + outward.x * sagitta, y: chordMid.y + outward.y * sagitta };
+}
+
 /**
  * Cubic Bezier curve
  */
@@ -77,3 +147,79 @@ export function getLineIntersection(p1: Point, p2: Point, p3: Point, p4: Point):
 export function smootherStep(t: number): number {
 	return t * t * t * (t * (t * 6 - 15) + 10);
 }
+
+/**
+ * I1(x) / x, with I1 the modified Bessel function of the first kind, by its power series
+ */
+function besselI1OverX(x: number): number {
+	const q = (x * x) / 4;
+	let term = 0.5;
+	let sum = term;
+	for (let k = 1; k < 100 && term > sum * 1e-12; k++) {
+		term *= q / (k * (k + 1));
+		sum += term;
+	}
+	return sum;
+}
+
+/**
+ * Klopfenstein's phi(z, A): integral from 0 to z of I1(A sqrt(1 - y^2)) / (A sqrt(1 - y^2)), by Simpson's rule
+ */
+function klopfensteinPhi(z: number, a: number): number {
+	const n = 64;
+	const h = z / n;
+	const f = (y: number) => besselI1OverX(a * Math.sqrt(Math.max(0, 1 - y * y)));
+	let sum = f(0) + f(z);
+	for (let i = 1; i < n; i++)
+		sum += f(i * h) * (i % 2 === 1 ? 4 : 2);
+	return (sum * h) / 3;
+}
+
+/**
+ * Position of a Klopfenstein taper between its end impedances, as a 0-1 fraction of the log impedance change.
+ * The taper steps at both ends by design, so 0 and 1 are only reached there.
+ * @param t Position along the taper (0-1)
+ * @param ratio Impedance ratio of the two ends (> 1)
+ */
+export function klopfensteinStep(t: number, ratio: number): number {
+	const gamma0 = Math.log(ratio) / 2;
+	// A step this small is already within the ripple, a smooth exponential taper is as good
+	if (gamma0 <= KLOPFENSTEIN_RIPPLE)
+		return t;
+	const a = Math.acosh(gamma0 / KLOPFENSTEIN_RIPPLE);
+	return 0.5 + (a * a * klopfensteinPhi(2 * t - 1, a)) / (2 * Math.cosh(a));
+}
+
+/**
+ * Width along a width transition.
+ * Exponential and Klopfenstein tapers work on log impedance, with impedance taken as
+ * inversely proportional to width (the stack-up is not known).
+ * @param profile Taper profile
+ * @param from Width at the start (t = 0)
+ * @param to Width at the end (t = 1)
+ * @param t Position along the transition (0-1)
+ * @param bezier Control values of the custom Bezier profile, as 0-1 fractions of the width change
+ */
+export function taperWidth(profile: TaperProfile, from: number, to: number, t: number, bezier: [number, number] = [0, 1]): number {
+	if (t <= 0)
+		return from;
+	if (t >= 1)
+		return to;
+	const logScale = from > 0 && to > 0;
+	switch (profile) {
+		case 'linear':
+			return from + (to - from) * t;
+		case 'exponential':
+			return logScale ? from * (to / from) ** t : from + (to - from) * t;
+		case 'klopfenstein':
+			return logScale
+				? from * (to / from) ** klopfensteinStep(t, Math.max(from, to) / Math.min(from, to))
+				: from + (to - from) * t;
+		case 'bezier': {
+			const mt = 1 - t;
+			return from + (to - from) * (3 * mt * mt * t * bezier[0] + 3 * mt * t * t * bezier[1] + t ** 3);
+		}
+		default:
+			return from + (to - from) * smootherStep(t);
+	}
+}
@@ -0,0 +1,72 @@
+import type { PlannedPath, PlannerSegment } from './planner';
+import { describe, expect, it } from 'vitest';
+import { findDriftingNets, getGroupSkew, getLengthDeltas, getNetLengths, getTrackLength, resolveLengthGroups } from './netLength';
+
+describe('getTrackLength', () => {
+	it('measures straight tracks', () => {
+		expect(getTrackLength({ x: 0, y: 0 }, { x: 30, y: 40 })).toBe(50);
+	});
+
+	it('measures arcs along the curve', () => {
+		// Quarter circle of radius 10, either direction
+		expect(getTrackLength({ x: 10, y: 0 }, { x: 0, y: 10 }, 90)).toBeCloseTo(5 * Math.PI);
+		expect(getTrackLength({ x: 10, y: 0 }, { x: 0, y: 10 }, -90)).toBeCloseTo(5 * Math.PI);
+	});
+});
+
+describe('getNetLengths and getLengthDeltas', () => {
+	const segments: PlannerSegment[] = [
+		{ id: 'a', net: 'A', layer: 1, start: { x: 0, y: 0 }, end: { x: 100, y: 0 }, width: 10 },
+		{ id: 'b', net: 'A', layer: 1, start: { x: 100, y: 0 }, end: { x: 100, y: 100 }, width: 10 },
+		{ id: 'c', net: 'B', layer: 1, start: { x: 0, y: 50 }, end: { x: 50, y: 50 }, width: 10 },
+	];
+
+	it('adds up each net', () => {
+		expect(getNetLengths(segments)).toEqual(new Map([['A', 200], ['B', 50]]));
+	});
+
+	it('reports how much shorter a planned path makes its net', () => {
+		const path = {
+			net: 'A',
+			sources: segments.slice(0, 2),
+			elements: [
+				{ type: 'line', start: { x: 0, y: 0 }, end: { x: 90, y: 0 }, width: 10 },
+				{ type: 'arc', start: { x: 90, y: 0 }, end: { x: 100, y: 10 }, angle: 90, width: 10 },
+				{ type: 'line', start: { x: 100, y: 10 }, end: { x: 100, y: 100 }, width: 10 },
+			],
+		} as PlannedPath;
+		expect(getLengthDeltas([path]).get('A')).toBeCloseTo(5 * Math.PI - 20);
+	});
+});
+
+describe('resolveLengthGroups', () => {
+	const nets = ['DDR_DQ0', 'DDR_DQ1', 'USB_D+', 'USB_D-', 'GND', ''];
+
+	it('splits groups on semicolons and new lines', () => {
+		expect(resolveLengthGroups('DDR_DQ*; USB_D+, USB_D-\nGND', nets)).toEqual([
+			{ label: 'DDR_DQ*', nets: ['DDR_DQ0', 'DDR_DQ1'] },
+			{ label: 'USB_D+, USB_D-', nets: ['USB_D+', 'USB_D-'] },
+		]);
+	});
+});
+
+describe('findDriftingNets', () => {
+	const group = { label: 'G', nets: ['A', 'B', 'C'] };
+
+	it('flags nets shortened beyond the tolerance', () => {
+		const deltas = new Map([['A', -1], ['B', -8], ['C', -2]]);
+		expect(findDriftingNets([group], deltas, 5)).toEqual(new Set(['B']));
+	});
+
+	it('checks again once a dropped net keeps its length', () => {
+		// Dropping C leaves it unshortened, so B is now 6 mil off
+		const deltas = new Map([['A', -3], ['B', -6], ['C', -10]]);
+		expect(findDriftingNets([group], deltas, 5)).toEqual(new Set(['B', 'C']));
+	});
+});
+
+describe('getGroupSkew', () => {
+	it('is the spread between the longest and shortest net', () => {
+		expect(getGroupSkew({ label: 'G', nets: ['A', 'B'] }, new Map([['A', 120], ['B', 100]]))).toBe(20);
+	});
+});
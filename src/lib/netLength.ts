@@ -0,0 +1,117 @@
+/**
+ * Net Length
+ * Routed length per net, arcs included, so a smoothing run can report how much
+ * shorter it made each net and keep length-matched groups within their tolerance.
+ */
+
+import type { Point } from './math';
+import type { PlannedPath, PlannerSegment } from './planner';
+import { matchNetPattern } from './cornerRules';
+import { dist } from './math';
+
+/**
+ * Length of a straight track or an arc
+ * @param start Start point
+ * @param end End point
+ * @param arcAngle Signed arc angle (degrees), omitted for straight tracks
+ */
+export function getTrackLength(start: Point, end: Point, arcAngle?: number): number {
+	const chordLen = dist(start, end);
+	if (arcAngle === undefined || Math.abs(arcAngle) < 0.01 || chordLen < 0.001)
+		return chordLen;
+	// Radius = chord / (2 sin(θ/2)), length = radius * θ
+	const halfRad = (Math.abs(arcAngle) * Math.PI) / 360;
+	return (chordLen * halfRad) / Math.sin(halfRad);
+}
+
+/**
+ * Total length per net
+ * @param segments Tracks and arcs
+ */
+export function getNetLengths(segments: PlannerSegment[]): Map<string, number> {
+	const lengths = new Map<string, number>();
+	for (const s of segments)
+		lengths.set(s.net, (lengths.get(s.net) || 0) + getTrackLength(s.start, s.end, s.arcAngle));
+	return lengths;
+}
+
+/**
+ * Length change per net if the given paths are applied (negative = shorter)
+ * @param paths Planned paths
+ */
+export function getLengthDeltas(paths: PlannedPath[]): Map<string, number> {
+	const deltas = new Map<string, number>();
+	for (const path of paths) {
+		let delta = 0;
+		for (const e of path.elements)
+			delta += getTrackLength(e.start, e.end, e.type === 'arc' ? e.angle : undefined);
+		for (const s of path.sources)
+			delta -= getTrackLength(s.start, s.end, s.arcAngle);
+		deltas.set(path.net, (deltas.get(path.net) || 0) + delta);
+	}
+	return deltas;
+}
+
+/**
+ * Length-matched group resolved against the nets on the board
+ */
+export interface LengthGroup {
+	label: string; // Group as written in the settings
+	nets: string[];
+}
+
+/**
+ * Resolve length-matched groups.
+ * Groups are separated by semicolons or new lines; each holds comma-separated
+ * net patterns (see matchNetPattern), e.g. "DDR_DQ*; USB_D+, USB_D-".
+ * @param spec Group definition from settings
+ * @param nets Nets to match against
+ */
+export function resolveLengthGroups(spec: string, nets: Iterable<string>): LengthGroup[] {
+	const netList = [...nets].filter(net => net !== '');
+	const groups: LengthGroup[] = [];
+	for (const label of (spec || '').split(/[;\n]/).map(g => g.trim()).filter(Boolean)) {
+		const patterns = label.split(',').map(p => p.trim()).filter(Boolean);
+		const members = netList.filter(net => patterns.some(p => matchNetPattern(p, net)));
+		if (members.length > 1)
+			groups.push({ label, nets: members });
+	}
+	return groups;
+}
+
+/**
+ * Nets that would drift out of their group: shortened by more than `tolerance` beyond the
+ * least shortened member. Dropping them resets the reference, so the check repeats until
+ * every group is within tolerance again.
+ * @param groups Length-matched groups
+ * @param deltas Length change per net (from getLengthDeltas)
+ * @param tolerance Allowed extra skew per group (mil)
+ */
+export function findDriftingNets(groups: LengthGroup[], deltas: Map<string, number>, tolerance: number): Set<string> {
+	const drifting = new Set<string>();
+	const shortening = (net: string) => (drifting.has(net) ? 0 : -(deltas.get(net) || 0));
+	for (const group of groups) {
+		let changed = true;
+		while (changed) {
+			changed = false;
+			const least = Math.min(...group.nets.map(shortening));
+			for (const net of group.nets) {
+				if (!drifting.has(net) && shortening(net) - least > tolerance) {
+					drifting.add(net);
+					changed = true;
+				}
+			}
+		}
+	}
+	return drifting;
+}
+
+/**
+ * Difference between the longest and the shortest net of a group
+ * @param group Length-matched group
+ * @param lengths Length per net
+ */
+export function getGroupSkew(group: LengthGroup, lengths: Map<string, number>): number {
+	const values = group.nets.map(net => lengths.get(net) || 0);
+	return Math.max(...values) - Math.min(...values);
+}
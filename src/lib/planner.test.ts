@@ -0,0 +1,226 @@
+import type { Point } from './math';
+import type { PlannedPath, PlannerSegment } from './planner';
+import type { BeautifySettings } from './settings';
+import { describe, expect, it } from 'vitest';
+import { createObstacle } from './clearance';
+import { planSmoothing } from './planner';
+import { getDefaultSettings } from './settings';
+
+function line(id: string, start: Point, end: Point, width = 10): PlannerSegment {
+	return { id, net: 'A', layer: 1, start, end, width };
+}
+
+function settingsWith(changes: Partial<BeautifySettings>): BeautifySettings {
+	return { ...getDefaultSettings(), ...changes };
+}
+
+/**
+ * Segments the board holds after a plan is applied
+ */
+function applyPlan(segments: PlannerSegment[], paths: PlannedPath[]): PlannerSegment[] {
+	const replaced = new Set(paths.flatMap(path => path.sources.map(source => source.id)));
+	const created = paths.flatMap((path, p) => path.elements.map((element, k) => ({
+		id: `new${p}.${k}`,
+		net: path.net,
+		layer: path.layer,
+		start: element.start,
+		end: element.end,
+		width: element.width,
+		arcAngle: element.type === 'arc' ? element.angle : undefined,
+	})));
+	return [...segments.filter(segment => !replaced.has(segment.id)), ...created];
+}
+
+// L-shaped track turning 90° at (100, 0)
+const L_PATH = [
+	line('a', { x: 0, y: 0 }, { x: 100, y: 0 }),
+	line('b', { x: 100, y: 0 }, { x: 100, y: 100 }),
+];
+
+// Square ring
+const RING = [
+	line('a', { x: 0, y: 0 }, { x: 200, y: 0 }),
+	line('b', { x: 200, y: 0 }, { x: 200, y: 200 }),
+	line('c', { x: 200, y: 200 }, { x: 0, y: 200 }),
+	line('d', { x: 0, y: 200 }, { x: 0, y: 0 }),
+];
+
+// Same turn on legs too short for the default 20 mil radius
+const SHORT_L_PATH = [
+	line('a', { x: 70, y: 0 }, { x: 100, y: 0 }),
+	line('b', { x: 100, y: 0 }, { x: 100, y: 30 }),
+];
+
+const STYLES: BeautifySettings['cornerStyle'][] = ['arc', 'chamfer', 'doubleChamfer', 'clothoid'];
+
+describe('planSmoothing corners', () => {
+	it('replaces a corner with an arc between its tangent points', () => {
+		const plan = planSmoothing(L_PATH, settingsWith({}));
+		expect(plan.paths).toHaveLength(1);
+		const [path] = plan.paths;
+		expect(path.deleteIds.lines).toEqual(['a', 'b']);
+		expect(path.elements.map(element => element.type)).toEqual(['line', 'arc', 'line']);
+		const arc = path.elements[1];
+		expect(arc.start.x).toBeCloseTo(80);
+		expect(arc.start.y).toBeCloseTo(0);
+		expect(arc.end.x).toBeCloseTo(100);
+		expect(arc.end.y).toBeCloseTo(20);
+		expect(arc.angle).toBeCloseTo(90);
+		expect(plan.smoothedCorners).toBe(1);
+	});
+
+	it('cuts a chamfer between the same tangent points', () => {
+		const [path] = planSmoothing(L_PATH, settingsWith({ cornerStyle: 'chamfer' })).paths;
+		expect(path.elements.map(element => element.type)).toEqual(['line', 'line', 'line']);
+		expect(path.elements[1].start.x).toBeCloseTo(80);
+		expect(path.elements[1].end.y).toBeCloseTo(20);
+	});
+
+	it('takes the radius in millimetres when the unit is mm', () => {
+		const [path] = planSmoothing(L_PATH, settingsWith({ unit: 'mm', cornerRadius: 0.254 })).paths;
+		expect(path.elements[1].start.x).toBeCloseTo(90);
+	});
+
+	it('moves branch stubs onto the new corner', () => {
+		const stub = line('s', { x: 100, y: 0 }, { x: 50, y: 50 });
+		const [path] = planSmoothing([...L_PATH, stub], settingsWith({})).paths;
+		expect(path.stubMoves).toHaveLength(1);
+		expect(path.stubMoves[0].from).toEqual({ x: 100, y: 0 });
+		expect(path.stubMoves[0].to.x).toBeCloseTo(80 + 20 * Math.SQRT1_2);
+		expect(path.stubMoves[0].to.y).toBeCloseTo(20 - 20 * Math.SQRT1_2);
+	});
+});
+
+describe('planSmoothing rejections', () => {
+	it('leaves a corner sharp when its segments are too short for the radius', () => {
+		const plan = planSmoothing(SHORT_L_PATH, settingsWith({ forceArc: false }));
+		expect(plan.paths).toHaveLength(0);
+		expect(plan.clampedCorners).toBe(0);
+		expect(plan.diagnostics).toEqual([expect.objectContaining({ status: 'skipped', point: { x: 100, y: 0 } })]);
+	});
+
+	it('shrinks the radius to fit when arcs are forced', () => {
+		const plan = planSmoothing(SHORT_L_PATH, settingsWith({ forceArc: true }));
+		expect(plan.diagnostics).toEqual([expect.objectContaining({ status: 'clamped' })]);
+		expect(plan.paths[0].elements[1].start.x).toBeCloseTo(100 - 30 * 0.45);
+	});
+
+	it('leaves a corner sharp when the radius is too small for the track width', () => {
+		const wide = L_PATH.map(segment => ({ ...segment, width: 60 }));
+		const plan = planSmoothing(wide, settingsWith({}));
+		expect(plan.paths).toHaveLength(0);
+		expect(plan.diagnostics[0].reason).toContain('too small for width');
+	});
+
+	it('leaves a corner sharp where a locked track ends', () => {
+		const plan = planSmoothing(L_PATH, settingsWith({}), { fixedPoints: [{ x: 100, y: 0 }] });
+		expect(plan.paths).toHaveLength(0);
+		expect(plan.diagnostics[0].reason).toBe('locked track attached');
+	});
+
+	it('shrinks a corner to keep clearance to other nets', () => {
+		const via = createObstacle('v', 'B', null, [{ start: { x: 90, y: 10 }, end: { x: 90, y: 10 }, radius: 1 }]);
+		const plan = planSmoothing(L_PATH, settingsWith({ enableDRC: true, drcClearance: 2 }), { obstacles: [via] });
+		expect(plan.diagnostics).toEqual([expect.objectContaining({ status: 'clamped' })]);
+		expect(plan.diagnostics[0].reason).toContain('clearance');
+		expect(plan.paths[0].elements[1].start.x).toBeGreaterThan(80);
+	});
+
+	it('leaves a corner sharp when the net has no length budget left', () => {
+		const plan = planSmoothing(L_PATH, settingsWith({}), { lengthBudgets: new Map([['A', 0]]) });
+		expect(plan.paths).toHaveLength(0);
+		expect(plan.diagnostics[0].reason).toContain('length-matched');
+	});
+
+	it('shrinks a corner to what is left of the length budget', () => {
+		const plan = planSmoothing(L_PATH, settingsWith({}), { lengthBudgets: new Map([['A', 4]]) });
+		const [path] = plan.paths;
+		expect(path.elements[1].start.x).toBeGreaterThan(80);
+		const arcLength = (Math.PI / 2) * (100 - path.elements[1].start.x);
+		expect(2 * (100 - path.elements[1].start.x) - arcLength).toBeLessThanOrEqual(4);
+		expect(plan.diagnostics[0].reason).toContain('length matching');
+	});
+});
+
+describe('planSmoothing concentric groups', () => {
+	// Two tracks 20 mil apart turning left together; the inner one turns at (100, 0)
+	const PAIR = [
+		...L_PATH,
+		line('c', { x: 0, y: -20 }, { x: 120, y: -20 }),
+		line('d', { x: 120, y: -20 }, { x: 120, y: 100 }),
+	];
+	const settings = settingsWith({ concentricArcs: true, concentricPitch: 25 });
+	const arcOf = (plan: ReturnType<typeof planSmoothing>, net: number) =>
+		plan.paths[net].elements.find(element => element.type === 'arc')!;
+
+	it('gives the outer track the inner radius plus the spacing', () => {
+		const plan = planSmoothing(PAIR, settings);
+		expect(plan.concentricGroups).toBe(1);
+		expect(arcOf(plan, 0).start.x).toBeCloseTo(80);
+		expect(arcOf(plan, 1).start.x).toBeCloseTo(80);
+		expect(arcOf(plan, 1).end.y).toBeCloseTo(20);
+	});
+
+	it('rejects the whole group when clearance would shrink one track', () => {
+		// Close to the outer arc only
+		const via = createObstacle('v', 'B', null, [{ start: { x: 108, y: -8 }, end: { x: 108, y: -8 }, radius: 1 }]);
+		const plan = planSmoothing(PAIR, { ...settings, enableDRC: true, drcClearance: 2 }, { obstacles: [via] });
+		expect(plan.concentricGroups).toBe(0);
+		expect(plan.concentricRejections).toHaveLength(1);
+		expect(plan.concentricRejections[0].reason).toContain('clearance');
+		// Both corners fall back to the plain radius
+		expect(arcOf(plan, 0).start.x).toBeCloseTo(80);
+		expect(arcOf(plan, 1).start.x).toBeCloseTo(100);
+	});
+
+	it('rejects the whole group when a locked track holds one corner', () => {
+		const plan = planSmoothing(PAIR, settings, { fixedPoints: [{ x: 120, y: -20 }] });
+		expect(plan.concentricGroups).toBe(0);
+		expect(plan.concentricRejections[0].reason).toContain('locked track attached');
+		expect(plan.paths).toHaveLength(1);
+		expect(arcOf(plan, 0).start.x).toBeCloseTo(80);
+	});
+});
+
+describe('planSmoothing re-runs', () => {
+	it.each(STYLES)('leaves its own %s corners alone', (cornerStyle) => {
+		const settings = settingsWith({ cornerStyle });
+		const first = planSmoothing(L_PATH, settings);
+		expect(first.paths).toHaveLength(1);
+		expect(first.smoothedCorners).toBe(1);
+
+		const second = planSmoothing(applyPlan(L_PATH, first.paths), settings);
+		expect(second.paths).toHaveLength(0);
+	});
+
+	it.each(STYLES)('leaves its own %s corners on a ring alone', (cornerStyle) => {
+		const settings = settingsWith({ cornerStyle });
+		const first = planSmoothing(RING, settings);
+		expect(first.smoothedCorners).toBe(4);
+
+		const second = planSmoothing(applyPlan(RING, first.paths), settings);
+		expect(second.paths).toHaveLength(0);
+	});
+
+	it('re-smooths an arc with a new radius', () => {
+		const first = planSmoothing(L_PATH, settingsWith({ cornerRadius: 10 }));
+		const second = planSmoothing(applyPlan(L_PATH, first.paths), settingsWith({ cornerRadius: 20 }));
+		expect(second.paths).toHaveLength(1);
+		const arc = second.paths[0].elements.find(element => element.type === 'arc')!;
+		expect(arc.start.x).toBeCloseTo(80);
+		expect(arc.end.y).toBeCloseTo(20);
+	});
+});
+
+describe('planSmoothing arcs', () => {
+	it('keeps an arc that meets its track at an angle, and the corner it sits on', () => {
+		const segments = [
+			...L_PATH,
+			{ id: 'arc', net: 'A', layer: 1, start: { x: 100, y: 0 }, end: { x: 140, y: 0 }, width: 10, arcAngle: 90 },
+		];
+		const plan = planSmoothing(segments, settingsWith({}));
+		expect(plan.paths.flatMap(path => path.deleteIds.arcs)).toEqual([]);
+		expect(plan.paths).toHaveLength(0);
+		expect(plan.diagnostics).toContainEqual(expect.objectContaining({ point: { x: 100, y: 0 }, reason: 'arc kept as is attached' }));
+	});
+});
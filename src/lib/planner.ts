@@ -0,0 +1,1482 @@
+/**
+ * Smoothing Planner
+ * Computes the geometry that replaces the corners of a set of track segments.
+ * Works on plain segment data only and never touches the document, so the result
+ * can be previewed, checked or executed by whoever called it.
+ */
+
+import type { ClearanceObstacle } from './clearance';
+import type { ConcentricCorner, ConcentricRejection } from './concentric';
+import type { PointIndex } from './connectivity';
+import type { CornerParams } from './cornerRules';
+import type { Point } from './math';
+import type { BeautifySettings } from './settings';
+import { arcToCapsules, getClearance } from './clearance';
+import { getClothoidCornerPoints } from './clothoid';
+import { findConcentricGroups, getConcentricTangentDistances } from './concentric';
+import { addPoint, createNodeKeys, createPointIndex, findNear } from './connectivity';
+import { resolveCornerParams } from './cornerRules';
+import { dist, getAngleBetween, getArcMidpoint, getLineIntersection, lerp, rotateVector } from './math';
+import { getTrackLength } from './netLength';
+
+/**
+ * Track, polyline segment or arc as input to the planner (all lengths in mil)
+ */
+export interface PlannerSegment {
+	id: string; // Primitive ID (polyline segments get their own virtual ID)
+	net: string;
+	layer: number;
+	start: Point;
+	end: Point;
+	width: number;
+	arcAngle?: number; // Set for existing arcs (signed, degrees)
+	polylineId?: string; // Set for polyline segments: the whole polyline is replaced
+}
+
+/**
+ * Replacement of one continuous path
+ */
+export interface PlannedPath {
+	net: string;
+	layer: number;
+	elements: PathElement[]; // Geometry to create, in path order
+	deleteIds: { lines: string[]; arcs: string[]; polylines: string[] }; // Primitives to delete
+	sources: PlannerSegment[]; // Segments being replaced, in path order
+	stubMoves: { from: Point; to: Point }[]; // Branch points that move onto the new geometry
+	smoothedCorners: number; // Corners given new geometry
+	clampedCorners: number; // Corners left sharp because their tracks are too short
+}
+
+/**
+ * Result of planning a smoothing run
+ */
+export interface SmoothingPlan {
+	paths: PlannedPath[];
+	diagnostics: CornerDiagnostic[]; // Clamped/skipped corners
+	processedPaths: number;
+	smoothedCorners: number;
+	clampedCorners: number;
+	concentricGroups: number; // Parallel corner groups sharing a centre
+	concentricRejections: { reason: string; corners: { net: string; point: Point }[] }[];
+}
+
+export interface PlannerOptions {
+	netClasses?: Map<string, string[]>; // Net class membership, needed when corner rules filter on it
+	log?: (message: string) => void; // Debug output
+	obstacles?: ClearanceObstacle[]; // Copper of other nets; corners keep drcClearance from it when enableDRC is on
+	lengthBudgets?: Map<string, number>; // Per net: how much shorter (mil) smoothing may make it
+	fixedPoints?: Point[]; // Ends of locked tracks: corners there stay sharp, so the locked track stays connected
+}
+
+/**
+ * Convert millimetres to mil (the unit of all planner geometry)
+ */
+function mmToMil(value: number): number {
+	return value / 0.0254;
+}
+
+const CLEARANCE_SHRINK_FACTOR = 0.8; // Tangent distance kept per clearance retry
+const CLEARANCE_SHRINK_STEPS = 12;
+const ARC_TANGENT_TOLERANCE = 2; // Max angle between an arc end and the track it runs on into (degrees)
+const MAX_STYLED_LINES = 64; // Most lines a rebuilt corner can have (clothoids use one per 3° of turn)
+const STYLED_TOLERANCE = 0.01; // Max distance between a vertex and its rebuilt position (mil)
+
+/**
+ * A single element of a rebuilt path, each with its own line width
+ */
+export interface PathElement {
+	type: 'line' | 'arc';
+	start: Point;
+	end: Point;
+	angle?: number;
+	width: number;
+}
+
+/**
+ * A track segment taking part in path extraction
+ */
+interface TrackSegment {
+	p1: Point;
+	p2: Point;
+	width: number;
+	id: string;
+	source: PlannerSegment;
+	arcAngle?: number; // Set for existing arcs
+}
+
+/**
+ * A continuous path extracted from one net/layer group
+ */
+interface TrackPath {
+	net: string;
+	layer: number;
+	cornerParams: CornerParams;
+	points: Point[]; // Path vertices, with existing arcs collapsed back into corners
+	widths: number[]; // Width of each segment between consecutive points
+	orderedSegs: TrackSegment[]; // Source primitives, in path order
+	sourcePoints: Point[]; // Source primitive endpoints, in path order
+	branchCorners: Set<number>; // Corner indexes that sit on a branch point
+	styledCorners: Set<number>; // Corner indexes of chamfers/clothoids already rebuilt with the current style
+	closed: boolean; // Ring: `points` runs once around and repeats its first leg, so the closing corner is smoothed too
+}
+
+/**
+ * Corner an existing arc replaced: the intersection of its end tangents
+ * @param start Arc start point
+ * @param end Arc end point
+ * @param arcAngle Signed arc angle (degrees), from start to end
+ */
+function getArcCorner(start: Point, end: Point, arcAngle: number): Point | null {
+	if (Math.abs(arcAngle) < 0.01 || Math.abs(arcAngle) >= 179)
+		return null;
+	const chord = { x: end.x - start.x, y: end.y - start.y };
+	const dirIn = rotateVector(chord, -arcAngle / 2);
+	const dirOut = rotateVector(chord, arcAngle / 2);
+	return getLineIntersection(
+		start,
+		{ x: start.x + dirIn.x, y: start.y + dirIn.y },
+		end,
+		{ x: end.x + dirOut.x, y: end.y + dirOut.y },
+	);
+}
+
+/**
+ * Unit direction leaving a segment at one of its ends (arcs use their tangent)
+ */
+function getLeavingDirection(seg: TrackSegment, atStart: boolean): Point {
+	const chord = atStart
+		? { x: seg.p2.x - seg.p1.x, y: seg.p2.y - seg.p1.y }
+		: { x: seg.p1.x - seg.p2.x, y: seg.p1.y - seg.p2.y };
+	const dir = seg.arcAngle ? rotateVector(chord, atStart ? -seg.arcAngle / 2 : seg.arcAngle / 2) : chord;
+	const len = Math.sqrt(dir.x ** 2 + dir.y ** 2) || 1;
+	return { x: dir.x / len, y: dir.y / len };
+}
+
+/**
+ * Find arcs that meet another segment at an angle instead of running on into it.
+ * Collapsing such an arc to the corner of its tangents would bend the segment it meets.
+ * An arc end with nothing attached does not count.
+ * @param segs Segments of one net on one layer
+ * @param tolerance Connectivity snap tolerance (mil)
+ */
+function findKinkedArcs(segs: TrackSegment[], tolerance: number): Set<TrackSegment> {
+	const pointKey = createNodeKeys(tolerance);
+	const leaving = new Map<string, { seg: TrackSegment; dir: Point }[]>();
+	for (const seg of segs) {
+		for (const atStart of [true, false]) {
+			const key = pointKey(atStart ? seg.p1 : seg.p2);
+			if (!leaving.has(key))
+				leaving.set(key, []);
+			leaving.get(key)!.push({ seg, dir: getLeavingDirection(seg, atStart) });
+		}
+	}
+
+	const kinked = new Set<TrackSegment>();
+	for (const seg of segs) {
+		if (seg.arcAngle === undefined)
+			continue;
+		for (const atStart of [true, false]) {
+			const others = leaving.get(pointKey(atStart ? seg.p1 : seg.p2))!.filter(other => other.seg !== seg);
+			// Running on: the other segment leaves the shared end the opposite way
+			const dir = getLeavingDirection(seg, atStart);
+			if (others.length > 0 && !others.some(other => Math.abs(getAngleBetween(dir, { x: -other.dir.x, y: -other.dir.y })) <= ARC_TANGENT_TOLERANCE))
+				kinked.add(seg);
+		}
+	}
+	return kinked;
+}
+
+/**
+ * Turn a path that may contain arcs into plain vertices.
+ * Each arc is replaced by the corner at its tangent intersection, so the corner
+ * can be smoothed again with the current settings. Arcs that are not tangent to
+ * their neighbours never get here (see findKinkedArcs).
+ * @param points Source endpoints in path order
+ * @param orderedSegs Source segments in path order
+ */
+function collapseArcs(points: Point[], orderedSegs: TrackSegment[]): { points: Point[]; widths: number[] } {
+	const vertices: Point[] = [points[0]];
+	const widths: number[] = [];
+
+	for (let k = 0; k < orderedSegs.length; k++) {
+		const seg = orderedSegs[k];
+		if (seg.arcAngle === undefined) {
+			vertices.push(points[k + 1]);
+			widths.push(seg.width);
+			continue;
+		}
+
+		// Angle sign follows the traversal direction
+		const forward = dist(seg.p1, points[k]) < dist(seg.p2, points[k]);
+		const corner = getArcCorner(points[k], points[k + 1], forward ? seg.arcAngle : -seg.arcAngle)!;
+		if (k > 0 && orderedSegs[k - 1].arcAngle === undefined) {
+			// The incoming line now runs up to the corner
+			vertices[vertices.length - 1] = corner;
+		}
+		else {
+			vertices.push(corner);
+			widths.push(seg.width);
+		}
+
+		if (k === orderedSegs.length - 1) {
+			vertices.push(points[k + 1]);
+			widths.push(seg.width);
+		}
+	}
+
+	return { points: vertices, widths };
+}
+
+/**
+ * Unroll the vertices of a closed ring so the open path walker reaches every corner:
+ * the ring runs once around and then repeats its first leg. A start point that lies
+ * on a straight leg (the end of a collapsed arc) is not a corner and is dropped; the first
+ * vertex of a clothoid bends very little but is kept, so the clothoid is still recognised.
+ * @param points Ring vertices, first and last point equal
+ * @param widths Width of each leg
+ * @returns Unrolled points and widths, or null if the ring has fewer than three corners
+ */
+function unrollRing(points: Point[], widths: number[]): { points: Point[]; widths: number[] } | null {
+	let ring = points.slice(0, -1);
+	let ringWidths = widths.slice();
+	const last = ring[ring.length - 1];
+	const bend = getAngleBetween(
+		{ x: ring[0].x - last.x, y: ring[0].y - last.y },
+		{ x: ring[1].x - ring[0].x, y: ring[1].y - ring[0].y },
+	);
+	if (Math.abs(bend) < 1e-6 && Math.abs(widths[0] - widths[widths.length - 1]) < 0.001) {
+		ring = ring.slice(1);
+		ringWidths = ringWidths.slice(1);
+	}
+	if (ring.length < 3)
+		return null;
+	return { points: [...ring, ring[0], ring[1]], widths: [...ringWidths, ringWidths[0]] };
+}
+
+/**
+ * Close a rebuilt ring: the first and the last line both lie on the repeated first leg,
+ * so the last line takes over the first one. The ring then starts where its source did,
+ * if an element starts there, so unchanged rings are recognised.
+ * @param elements Geometry built from the unrolled points
+ * @param sourceStart First source endpoint of the ring
+ */
+function closeRing(elements: PathElement[], sourceStart: Point): PathElement[] {
+	const first = elements[0];
+	const last = elements[elements.length - 1];
+	if (elements.length < 3 || first.type !== 'line' || last.type !== 'line')
+		return elements;
+	const ring = [...elements.slice(1, -1), { ...last, end: first.end }];
+	const startIndex = ring.findIndex(e => dist(e.start, sourceStart) < 0.01);
+	return startIndex > 0 ? [...ring.slice(startIndex), ...ring.slice(0, startIndex)] : ring;
+}
+
+/**
+ * Whether the rebuilt path is the same as its source primitives (re-running with unchanged settings)
+ */
+function isSameGeometry(newPath: PathElement[], path: TrackPath): boolean {
+	const elements = newPath.filter(item => item.type === 'arc' || dist(item.start, item.end) > 0.001);
+	if (elements.length !== path.orderedSegs.length)
+		return false;
+
+	const eps = 0.01;
+	return elements.every((item, k) => {
+		const seg = path.orderedSegs[k];
+		const start = path.sourcePoints[k];
+		const end = path.sourcePoints[k + 1];
+		if ((item.type === 'arc') !== (seg.arcAngle !== undefined))
+			return false;
+		if (dist(item.start, start) > eps || dist(item.end, end) > eps || Math.abs(item.width - seg.width) > eps)
+			return false;
+		if (item.type === 'arc') {
+			const forward = dist(seg.p1, start) < dist(seg.p2, start);
+			const angle = forward ? seg.arcAngle! : -seg.arcAngle!;
+			if (Math.abs(item.angle! - angle) > eps)
+				return false;
+		}
+		return true;
+	});
+}
+
+/**
+ * Find the vertices of corners already rebuilt with the current corner style.
+ * Chamfers and clothoids stay plain lines, so a second run would see their vertices as new
+ * corners. A run of vertices that bend the same way is one such corner when its ends sit at
+ * the same distance from where the legs around it meet, and rebuilding the corner between
+ * those ends gives the same vertices back.
+ * @param points Path vertices (a ring runs once around and repeats its first leg)
+ * @param closed Whether the path is a ring
+ * @param settings Extension settings
+ * @returns Corner indexes to keep as they are
+ */
+function findStyledCorners(points: Point[], closed: boolean, settings: BeautifySettings): Set<number> {
+	const styled = new Set<number>();
+	if (settings.cornerStyle === 'arc')
+		return styled;
+
+	// Corner k of a ring sits on ring vertex k % size
+	const size = closed ? points.length - 2 : points.length;
+	const at = (k: number) => points[closed ? k % size : k];
+	const lastCorner = closed ? size : points.length - 2;
+	const bendAt = (k: number) => getAngleBetween(
+		{ x: at(k).x - at(k - 1).x, y: at(k).y - at(k - 1).y },
+		{ x: at(k + 1).x - at(k).x, y: at(k + 1).y - at(k).y },
+	);
+
+	for (let s = 1; s <= lastCorner; s++) {
+		// Clothoids start with almost no bend, so only exactly straight vertices are passed over
+		const bend = bendAt(s);
+		if (Math.abs(bend) < 1e-6)
+			continue;
+		const lastEnd = closed ? s + size - 3 : lastCorner;
+		for (let e = s + 1; e <= lastEnd && e - s <= MAX_STYLED_LINES; e++) {
+			// Every vertex of the corner bends the same way
+			if (bendAt(e) * bend <= 0 || Math.abs(bendAt(e)) < 1e-6)
+				break;
+
+			const pStart = at(s);
+			const pEnd = at(e);
+			const dirIn = { x: pStart.x - at(s - 1).x, y: pStart.y - at(s - 1).y };
+			const dirOut = { x: at(e + 1).x - pEnd.x, y: at(e + 1).y - pEnd.y };
+			const corner = getLineIntersection(at(s - 1), pStart, pEnd, at(e + 1));
+			if (!corner || Math.abs(dist(corner, pStart) - dist(corner, pEnd)) > STYLED_TOLERANCE)
+				continue;
+			// The legs meet ahead of the corner, not behind it
+			if ((corner.x - pStart.x) * dirIn.x + (corner.y - pStart.y) * dirIn.y <= 0
+				|| (pEnd.x - corner.x) * dirOut.x + (pEnd.y - corner.y) * dirOut.y <= 0) {
+				continue;
+			}
+
+			const rebuilt: PathElement[] = [];
+			pushCornerGeometry(rebuilt, settings.cornerStyle, pStart, pEnd, getAngleBetween(dirIn, dirOut), 0, settings.clothoidLength ?? 0);
+			if (rebuilt.length !== e - s || !rebuilt.every((element, k) => dist(element.end, at(s + k + 1)) <= STYLED_TOLERANCE))
+				continue;
+
+			for (let k = s; k <= e; k++)
+				styled.add(closed ? ((k - 1) % size) + 1 : k);
+			s = e;
+			break;
+		}
+	}
+	return styled;
+}
+
+/**
+ * Pick the through-route at every branch point (more than two connections).
+ * The pair of segments with the least deflection continues the path; the rest are stubs.
+ * @param connections Segments by endpoint key
+ * @param pointKey Endpoint key function used to build `connections`
+ * @returns Partner segment keyed by `${segId}@${nodeKey}`
+ */
+function getThroughPartners(
+	connections: Map<string, TrackSegment[]>,
+	pointKey: (p: Point) => string,
+): Map<string, TrackSegment> {
+	const partners = new Map<string, TrackSegment>();
+	for (const [nodeKey, conns] of connections) {
+		if (conns.length <= 2)
+			continue;
+
+		// Direction from the branch point along each segment
+		const dirs = conns.map((seg) => {
+			const [node, far] = pointKey(seg.p1) === nodeKey ? [seg.p1, seg.p2] : [seg.p2, seg.p1];
+			return { x: far.x - node.x, y: far.y - node.y };
+		});
+
+		let best: [number, number] | null = null;
+		let bestDeflection = Infinity;
+		for (let a = 0; a < conns.length; a++) {
+			for (let b = a + 1; b < conns.length; b++) {
+				// Straight through = directions 180° apart
+				const deflection = 180 - Math.abs(getAngleBetween(dirs[a], dirs[b]));
+				if (deflection < bestDeflection) {
+					bestDeflection = deflection;
+					best = [a, b];
+				}
+			}
+		}
+
+		if (best) {
+			partners.set(`${conns[best[0]].id}@${nodeKey}`, conns[best[1]]);
+			partners.set(`${conns[best[1]].id}@${nodeKey}`, conns[best[0]]);
+		}
+	}
+	return partners;
+}
+
+/**
+ * Pick the corner radius (mil) for the configured radius mode.
+ * The result still goes through the usual segment length and line width checks.
+ * @param settings Extension settings
+ * @param baseRadius Fixed radius, also the cap for maximum-that-fits mode (mil)
+ * @param width Widest adjacent track width (mil)
+ * @param maxTangentDist Largest tangent distance the adjacent segments allow (mil)
+ * @param tanHalfAngle tan() of half the included corner angle
+ */
+function getModeRadius(
+	settings: BeautifySettings,
+	baseRadius: number,
+	width: number,
+	maxTangentDist: number,
+	tanHalfAngle: number,
+): number {
+	switch (settings.radiusMode) {
+		case 'widthMultiple':
+			return width * (settings.radiusWidthMultiple || 3);
+		case 'maxFit':
+			// Largest radius whose tangent points still fit on the segments
+			return Math.min(baseRadius, maxTangentDist * Math.abs(tanHalfAngle));
+		default:
+			return baseRadius;
+	}
+}
+
+/**
+ * Append the geometry that replaces one corner.
+ * Every style starts and ends on the same tangent points, so radius clamping,
+ * forceArc and line width checks mean the same thing for arcs, chamfers and clothoids.
+ * Returns the point of the new geometry nearest the old corner (where branch stubs attach).
+ * @param newPath Path being rebuilt
+ * @param style Corner style from settings
+ * @param pStart Tangent point on the incoming segment
+ * @param pEnd Tangent point on the outgoing segment
+ * @param sweptAngle Signed turn angle of the corner (degrees)
+ * @param width Line width of the corner geometry
+ * @param transitionLength Curvature transition length of clothoid corners (mil)
+ */
+function pushCornerGeometry(
+	newPath: PathElement[],
+	style: BeautifySettings['cornerStyle'],
+	pStart: Point,
+	pEnd: Point,
+	sweptAngle: number,
+	width: number,
+	transitionLength: number,
+): Point {
+	if (style === 'clothoid') {
+		// Curvature-continuous curve, written as short lines
+		const points = getClothoidCornerPoints(pStart, pEnd, sweptAngle, transitionLength);
+		for (let k = 1; k < points.length; k++)
+			newPath.push({ type: 'line', start: points[k - 1], end: points[k], width });
+		return points[Math.floor(points.length / 2)];
+	}
+
+	if (style === 'doubleChamfer') {
+		// Split the turn into three equal bends: at pStart, at the middle vertex and at pEnd
+		const chord = { x: pEnd.x - pStart.x, y: pEnd.y - pStart.y };
+		const dirIn = rotateVector(chord, -sweptAngle / 2);
+		const dir1 = rotateVector(dirIn, sweptAngle / 3);
+		const dir2 = rotateVector(dirIn, (sweptAngle * 2) / 3);
+		const pMid = getLineIntersection(
+			pStart,
+			{ x: pStart.x + dir1.x, y: pStart.y + dir1.y },
+			pEnd,
+			{ x: pEnd.x - dir2.x, y: pEnd.y - dir2.y },
+		);
+		if (pMid) {
+			newPath.push({ type: 'line', start: pStart, end: pMid, width });
+			newPath.push({ type: 'line', start: pMid, end: pEnd, width });
+			return pMid;
+		}
+		// Degenerate turn, fall back to a single chamfer
+	}
+
+	if (style === 'chamfer' || style === 'doubleChamfer') {
+		newPath.push({ type: 'line', start: pStart, end: pEnd, width });
+		return lerp(pStart, pEnd, 0.5);
+	}
+
+	newPath.push({ type: 'arc', start: pStart, end: pEnd, angle: sweptAngle, width });
+
+	return getArcMidpoint(pStart, pEnd, sweptAngle);
+}
+
+/**
+ * Corner that could not be smoothed as requested
+ */
+export interface CornerDiagnostic {
+	net: string;
+	layer: number;
+	point: Point;
+	status: 'clamped' | 'skipped';
+	reason: string;
+}
+
+/**
+ * State shared by the paths of one planning run
+ */
+interface PlanContext {
+	settings: BeautifySettings;
+	log: (message: string) => void;
+	concentricDists: Map<string, number>; // Tangent distance per concentric corner key
+	concentricGroupOf: Map<string, string>; // Group key per concentric corner key
+	brokenGroups: Map<string, string>; // Concentric groups a member could not keep its tangent distance in, with the reason
+	diagnostics: CornerDiagnostic[];
+	obstacles: ClearanceObstacle[] | null; // Set when the clearance check is on
+	lengthBudgets: Map<string, number> | null; // Remaining shortening per length-matched net (mil)
+	fixedPoints: PointIndex<string> | null; // Ends of locked tracks and of arcs kept as they are, with the reason
+}
+
+/**
+ * Why a corner must stay sharp (a locked track or a kept arc ends on it), or null if it may move
+ */
+function getFixedReason(ctx: PlanContext, corner: Point): string | null {
+	return (ctx.fixedPoints && findNear(ctx.fixedPoints, corner)[0]) || null;
+}
+
+/**
+ * Collect what a rebuilt path replaces
+ * @param path Extracted path
+ * @param elements New geometry of the path
+ * @param stubMoves Branch points that move onto the new geometry
+ */
+function toPlannedPath(
+	path: TrackPath,
+	elements: PathElement[],
+	stubMoves: { from: Point; to: Point }[],
+	stats: { smoothedCorners: number; clampedCorners: number },
+): PlannedPath {
+	const deleteIds: PlannedPath['deleteIds'] = { lines: [], arcs: [], polylines: [] };
+	for (const seg of path.orderedSegs) {
+		const source = seg.source;
+		if (source.polylineId) {
+			if (!deleteIds.polylines.includes(source.polylineId))
+				deleteIds.polylines.push(source.polylineId);
+		}
+		else if (source.arcAngle !== undefined) {
+			deleteIds.arcs.push(source.id);
+		}
+		else {
+			deleteIds.lines.push(source.id);
+		}
+	}
+
+	return {
+		net: path.net,
+		layer: path.layer,
+		elements,
+		deleteIds,
+		sources: path.orderedSegs.map(seg => seg.source),
+		stubMoves,
+		...stats,
+	};
+}
+
+/**
+ * Largest tangent distance, up to `tangentDist`, whose corner geometry keeps drcClearance
+ * from copper of other nets. Shrinking the corner pulls it back towards the original
+ * tracks, which are assumed to be clear already.
+ * @param ctx Planning state (with obstacles)
+ * @param net Net of the path
+ * @param layer Layer of the path
+ * @param pPrev Far end of the incoming segment
+ * @param pCorner Corner point
+ * @param pNext Far end of the outgoing segment
+ * @param tangentDist Tangent distance before the check (mil)
+ * @param minTangentDist Smallest tangent distance the track width allows (mil)
+ * @param width Line width of the corner geometry
+ * @returns Tangent distance that keeps the clearance, or 0 if none does
+ */
+function fitCornerClearance(
+	ctx: PlanContext,
+	net: string,
+	layer: number,
+	pPrev: Point,
+	pCorner: Point,
+	pNext: Point,
+	tangentDist: number,
+	minTangentDist: number,
+	width: number,
+): number {
+	const clearance = ctx.settings.drcClearance;
+	const sweptAngle = getAngleBetween(
+		{ x: pCorner.x - pPrev.x, y: pCorner.y - pPrev.y },
+		{ x: pNext.x - pCorner.x, y: pNext.y - pCorner.y },
+	);
+	const mag1 = dist(pPrev, pCorner);
+	const mag2 = dist(pCorner, pNext);
+
+	for (let d = tangentDist, attempt = 0; attempt < CLEARANCE_SHRINK_STEPS; attempt++, d *= CLEARANCE_SHRINK_FACTOR) {
+		if (d < Math.max(minTangentDist, 0.05))
+			break;
+		const elements: PathElement[] = [];
+		pushCornerGeometry(
+			elements,
+			ctx.settings.cornerStyle,
+			lerp(pCorner, pPrev, d / mag1),
+			lerp(pCorner, pNext, d / mag2),
+			sweptAngle,
+			width,
+			ctx.settings.clothoidLength ?? 0,
+		);
+		const capsules = elements.flatMap(e => e.type === 'arc'
+			? arcToCapsules(e.start, e.end, e.angle!, e.width / 2)
+			: [{ start: e.start, end: e.end, radius: e.width / 2 }]);
+		if (getClearance(capsules, net, layer, ctx.obstacles!, clearance) >= clearance)
+			return d;
+	}
+	return 0;
+}
+
+/**
+ * Total length of path elements
+ */
+function getElementsLength(elements: PathElement[]): number {
+	return elements.reduce((sum, e) => sum + getTrackLength(e.start, e.end, e.type === 'arc' ? e.angle : undefined), 0);
+}
+
+/**
+ * How much shorter a corner gets when its tangent points sit `tangentDist` from the corner
+ */
+function getCornerShortening(ctx: PlanContext, pPrev: Point, pCorner: Point, pNext: Point, tangentDist: number, width: number): number {
+	const elements: PathElement[] = [];
+	pushCornerGeometry(
+		elements,
+		ctx.settings.cornerStyle,
+		lerp(pCorner, pPrev, tangentDist / dist(pPrev, pCorner)),
+		lerp(pCorner, pNext, tangentDist / dist(pCorner, pNext)),
+		getAngleBetween(
+			{ x: pCorner.x - pPrev.x, y: pCorner.y - pPrev.y },
+			{ x: pNext.x - pCorner.x, y: pNext.y - pCorner.y },
+		),
+		width,
+		ctx.settings.clothoidLength ?? 0,
+	);
+	return 2 * tangentDist - getElementsLength(elements);
+}
+
+/**
+ * Largest tangent distance, up to `tangentDist`, whose shortening fits the length budget
+ * left for the net. Shortening grows with the tangent distance (linearly for arcs and chamfers),
+ * so the distance is scaled down by the overshoot a few times.
+ * @param ctx Planning state (with length budgets)
+ * @param net Net of the path
+ * @param pPrev Far end of the incoming segment
+ * @param pCorner Corner point
+ * @param pNext Far end of the outgoing segment
+ * @param tangentDist Tangent distance before the check (mil)
+ * @param width Line width of the corner geometry
+ * @returns Tangent distance that fits the budget, or 0 if none does
+ */
+function fitCornerLength(
+	ctx: PlanContext,
+	net: string,
+	pPrev: Point,
+	pCorner: Point,
+	pNext: Point,
+	tangentDist: number,
+	width: number,
+): number {
+	const budget = ctx.lengthBudgets!.get(net)!;
+	let d = tangentDist;
+	for (let attempt = 0; attempt < 4 && d > 0.05; attempt++) {
+		const shortening = getCornerShortening(ctx, pPrev, pCorner, pNext, d, width);
+		if (shortening <= budget + 1e-6)
+			return d;
+		if (budget <= 0)
+			return 0;
+		d *= (budget / shortening) * 0.999;
+	}
+	return 0;
+}
+
+/**
+ * Key of a corner within the extracted paths
+ */
+function cornerKey(pathIndex: number, cornerIndex: number): string {
+	return `${pathIndex}:${cornerIndex}`;
+}
+
+/**
+ * Find parallel tracks that turn together and give their corners a shared centre.
+ * The innermost track keeps the radius its own rule/mode would give it; outer tracks
+ * get that radius plus their spacing. If the segments cannot hold the whole group,
+ * the group shrinks together (force arc) or falls back to independent corners.
+ * Groups are keyed by their innermost corner.
+ * @param paths All extracted paths
+ * @param settings Extension settings
+ * @param log Debug log output
+ * @param excluded Groups rejected by an earlier planning pass, with the reason
+ * @returns Tangent distance (mil) and group key per corner key, and the groups that were rejected
+ */
+function planConcentricCorners(paths: TrackPath[], settings: BeautifySettings, log: (message: string) => void, excluded: Map<string, string>) {
+	const tangentDists = new Map<string, number>();
+	const groupOf = new Map<string, string>();
+	const rejected: ConcentricRejection[] = [];
+	const toMil = (value: number) => (settings.unit === 'mm' ? mmToMil(value) : value);
+
+	const corners: ConcentricCorner[] = [];
+	paths.forEach((path, pathIndex) => {
+		for (let i = 1; i < path.points.length - 1; i++) {
+			if (path.styledCorners.has(i))
+				continue;
+			corners.push({
+				pathIndex,
+				cornerIndex: i,
+				layer: path.layer,
+				prev: path.points[i - 1],
+				corner: path.points[i],
+				next: path.points[i + 1],
+				width: Math.max(path.widths[i - 1] ?? 0, path.widths[i] ?? 0),
+			});
+		}
+	});
+
+	const found = findConcentricGroups(corners, settings.concentricPitch);
+	rejected.push(...found.rejected);
+
+	let groupCount = 0;
+	for (const group of found.groups) {
+		const inner = group.members[0];
+		const innerParams = paths[inner.pathIndex].cornerParams;
+		const groupKey = cornerKey(inner.pathIndex, inner.cornerIndex);
+		if (excluded.has(groupKey)) {
+			rejected.push({ members: group.members, reason: excluded.get(groupKey)! });
+			continue;
+		}
+
+		// Same 45% segment limit as independent corners, per member
+		const tanHalfTurn = Math.tan((Math.abs(group.turnAngle) * Math.PI) / 360);
+		const maxTangentDists = group.members.map(m => Math.min(dist(m.prev, m.corner), dist(m.corner, m.next)) * 0.45);
+		const innerRadius = getModeRadius(settings, toMil(innerParams.radius), inner.width, maxTangentDists[0], 1 / tanHalfTurn);
+
+		// Largest inner radius every member can hold
+		const fitRadius = Math.min(...group.members.map((_, k) => maxTangentDists[k] / tanHalfTurn - group.spacings[k]));
+
+		let radius = innerRadius;
+		let reason = '';
+		if (fitRadius < innerRadius) {
+			if (fitRadius < innerRadius * 0.95 && !innerParams.forceArc)
+				reason = `segments too short for a shared centre (radius ${innerRadius.toFixed(2)}, fits ${fitRadius.toFixed(2)} mil)`;
+			radius = fitRadius;
+		}
+		if (!reason) {
+			const narrow = group.members.findIndex((m, k) => radius + group.spacings[k] < m.width / 2 - 0.05);
+			if (narrow >= 0)
+				reason = `radius too small for track width (${(radius + group.spacings[narrow]).toFixed(2)} mil, width ${group.members[narrow].width} mil)`;
+		}
+
+		if (reason) {
+			rejected.push({ members: group.members, reason });
+			continue;
+		}
+
+		const dists = getConcentricTangentDistances(group, radius);
+		group.members.forEach((m, k) => {
+			tangentDists.set(cornerKey(m.pathIndex, m.cornerIndex), dists[k]);
+			groupOf.set(cornerKey(m.pathIndex, m.cornerIndex), groupKey);
+		});
+		groupCount++;
+		log(`Concentric group of ${group.members.length} tracks at (${inner.corner.x.toFixed(2)}, ${inner.corner.y.toFixed(2)}), inner radius ${radius.toFixed(2)} mil`);
+	}
+
+	return { tangentDists, groupOf, groupCount, rejected };
+}
+
+/**
+ * Extract the continuous paths of one net/layer group.
+ * Paths end at open ends and at branch points, except along the through-route.
+ * @param segs Segments of one net on one layer
+ * @param net Net name
+ * @param layer Layer ID
+ * @param cornerParams Corner parameters for this net/layer
+ * @param settings Extension settings
+ */
+function extractPaths(segs: TrackSegment[], net: string, layer: number, cornerParams: CornerParams, settings: BeautifySettings): TrackPath[] {
+	const paths: TrackPath[] = [];
+
+	// Endpoints within the connectivity tolerance share a node key
+	const pointKey = createNodeKeys(settings.connectivityTolerance ?? 0.1);
+
+	// Build adjacency map
+	const connections = new Map<string, TrackSegment[]>();
+	for (const seg of segs) {
+		const key1 = pointKey(seg.p1);
+		const key2 = pointKey(seg.p2);
+		if (!connections.has(key1))
+			connections.set(key1, []);
+		if (!connections.has(key2))
+			connections.set(key2, []);
+		connections.get(key1)?.push(seg);
+		connections.get(key2)?.push(seg);
+	}
+
+	// At branch points the through-route is the pair of segments with the least
+	// deflection; the other segments are stubs that end at the branch point
+	const throughPartners = getThroughPartners(connections, pointKey);
+	const getContinuations = (nodeKey: string, from: TrackSegment): TrackSegment[] => {
+		const conns = connections.get(nodeKey) || [];
+		if (conns.length <= 2)
+			return conns;
+		const partner = throughPartners.get(`${from.id}@${nodeKey}`);
+		return partner ? [partner] : [];
+	};
+
+	// Extract all continuous paths
+	const used = new Set<string>();
+
+	for (const startSeg of segs) {
+		if (used.has(startSeg.id))
+			continue;
+
+		const points: Point[] = [startSeg.p1, startSeg.p2];
+		const orderedSegs: TrackSegment[] = [startSeg];
+		used.add(startSeg.id);
+
+		// Extend path in both directions
+		let extended = true;
+		while (extended) {
+			extended = false;
+
+			// Try extending from the end
+			const lastKey = pointKey(points[points.length - 1]);
+
+			// Stop at branch points (connection count > 2), except along the through-route
+			const lastConns = getContinuations(lastKey, orderedSegs[orderedSegs.length - 1]);
+			for (const seg of lastConns) {
+				if (used.has(seg.id))
+					continue;
+				const nextKey1 = pointKey(seg.p1);
+				const nextKey2 = pointKey(seg.p2);
+				if (nextKey1 === lastKey) {
+					points.push(seg.p2);
+					orderedSegs.push(seg);
+					used.add(seg.id);
+					extended = true;
+					break;
+				}
+				else if (nextKey2 === lastKey) {
+					points.push(seg.p1);
+					orderedSegs.push(seg);
+					used.add(seg.id);
+					extended = true;
+					break;
+				}
+			}
+
+			// Try extending from the start
+			if (!extended) {
+				const firstKey = pointKey(points[0]);
+
+				// Stop at branch points (connection count > 2), except along the through-route
+				const firstConns = getContinuations(firstKey, orderedSegs[0]);
+				for (const seg of firstConns) {
+					if (used.has(seg.id))
+						continue;
+					const nextKey1 = pointKey(seg.p1);
+					const nextKey2 = pointKey(seg.p2);
+					if (nextKey1 === firstKey) {
+						points.unshift(seg.p2);
+						orderedSegs.unshift(seg);
+						used.add(seg.id);
+						extended = true;
+						break;
+					}
+					else if (nextKey2 === firstKey) {
+						points.unshift(seg.p1);
+						orderedSegs.unshift(seg);
+						used.add(seg.id);
+						extended = true;
+						break;
+					}
+				}
+			}
+		}
+
+		// Existing arcs become the corners they once replaced
+		let collapsed = collapseArcs(points, orderedSegs);
+
+		// Closed ring (guard trace, coil): unroll it so every corner, the closing one included,
+		// sits between two points. Through a branch point only along the through-route.
+		const closingKey = pointKey(points[0]);
+		const closed = orderedSegs.length >= 3
+			&& closingKey === pointKey(points[points.length - 1])
+			&& ((connections.get(closingKey)?.length ?? 0) <= 2
+				|| throughPartners.get(`${orderedSegs[0].id}@${closingKey}`) === orderedSegs[orderedSegs.length - 1]);
+		const unrolled = closed ? unrollRing(collapsed.points, collapsed.widths) : null;
+		if (unrolled)
+			collapsed = unrolled;
+
+		if (collapsed.points.length >= 3) {
+			const branchCorners = new Set<number>();
+			for (let i = 1; i < collapsed.points.length - 1; i++) {
+				if ((connections.get(pointKey(collapsed.points[i]))?.length ?? 0) > 2)
+					branchCorners.add(i);
+			}
+			paths.push({
+				net,
+				layer,
+				cornerParams,
+				points: collapsed.points,
+				widths: collapsed.widths,
+				orderedSegs,
+				sourcePoints: points,
+				branchCorners,
+				styledCorners: findStyledCorners(collapsed.points, unrolled !== null, settings),
+				closed: unrolled !== null,
+			});
+		}
+	}
+
+	return paths;
+}
+
+/**
+ * Plan the new geometry of one path
+ * @param path Extracted path
+ * @param pathIndex Index of the path among all extracted paths
+ * @param ctx Shared planning state
+ * @returns Planned replacement, or null if the path stays as it is
+ */
+function planPath(path: TrackPath, pathIndex: number, ctx: PlanContext): PlannedPath | null {
+	const { settings, log } = ctx;
+	const currentStubMoves: { from: Point; to: Point }[] = [];
+	const stats = { smoothedCorners: 0, clampedCorners: 0 };
+	const { net, layer, cornerParams, points, widths } = path;
+
+	// Check data integrity
+	if (!points || points.some(p => !p || typeof p.x !== 'number' || typeof p.y !== 'number')) {
+		log('Path contains invalid points, skipping');
+		return null;
+	}
+
+	if (points.length >= 3) {
+		let radius = cornerParams.radius;
+		log(`Path on ${net || 'No Net'} (layer ${layer}, ${points.length - 2} corners) uses ${cornerParams.ruleLabel}, radius=${radius}${settings.unit}, mode=${settings.radiusMode}`);
+
+		// JLC EDA API system units are always mil (SYS_Unit.getSystemDataUnit() -> MIL)
+		// So all coordinate calculations must be in mil
+		if (settings.unit === 'mm') {
+			radius = mmToMil(radius); // mm -> mil
+		}
+		const transitionLength = settings.clothoidLength ?? 0; // Already in mil
+
+		// Length-matched net: re-smoothed arcs give back what they shortened, new corners spend it
+		const budgetBefore = ctx.lengthBudgets?.get(net);
+		const hasBudget = budgetBefore !== undefined;
+		if (hasBudget) {
+			let sharpLength = 0;
+			// A ring repeats its first leg
+			for (let k = path.closed ? 2 : 1; k < points.length; k++)
+				sharpLength += dist(points[k - 1], points[k]);
+			const sourceLength = path.orderedSegs.reduce((sum, seg) => sum + getTrackLength(seg.p1, seg.p2, seg.arcAngle), 0);
+			ctx.lengthBudgets!.set(net, budgetBefore + Math.max(0, sharpLength - sourceLength));
+		}
+
+		// Generate new geometry - each element includes its own line width
+		const newPath: PathElement[] = [];
+		let currentStart = points[0];
+
+		for (let i = 1; i < points.length - 1; i++) {
+			const pPrev = points[i - 1];
+			const pCorner = points[i];
+			const pNext = points[i + 1];
+
+			// Get line widths of previous and next segments
+			// widths[i-1] is the segment from point i-1 to point i
+			// widths[i] is the segment from point i to point i+1
+			const prevSegWidth = widths[i - 1] ?? widths[0];
+			const nextSegWidth = widths[i] ?? prevSegWidth;
+
+			// Chamfer or clothoid from an earlier run: its vertices stay where they are
+			if (path.styledCorners.has(i)) {
+				newPath.push({ type: 'line', start: currentStart, end: pCorner, width: prevSegWidth });
+				currentStart = pCorner;
+				continue;
+			}
+
+			let isMerged = false;
+
+			try {
+				// Try short segment merging logic (fixes U-turn middle segments too short to smooth)
+				// Corners of a concentric group keep their own geometry,
+				// and corners on branch points must keep a place for their stubs.
+				// On a ring the first and the closing corner share the repeated leg and are not merged.
+				const keepCorner = ctx.concentricDists.has(cornerKey(pathIndex, i))
+					|| ctx.concentricDists.has(cornerKey(pathIndex, i + 1))
+					|| path.branchCorners.has(i)
+					|| path.branchCorners.has(i + 1)
+					|| path.styledCorners.has(i + 1)
+					|| (path.closed && (i === 1 || i + 1 >= points.length - 2))
+					|| getFixedReason(ctx, pCorner) !== null
+					|| getFixedReason(ctx, pNext) !== null;
+				if (cornerParams.mergeShortSegments && !keepCorner && i < points.length - 2) {
+					const pAfter = points[i + 2];
+					// Extra check that pAfter exists
+					if (pAfter) {
+						const segLen = dist(pCorner, pNext);
+
+						// When middle segment is shorter than 1.5x the corner radius, try merging
+						// (Relaxed condition, was previously < radius)
+						// (Radius as if segments were unbounded, i.e. the cap in maximum-that-fits mode)
+						const mergeRadius = getModeRadius(settings, radius, Math.max(prevSegWidth, nextSegWidth), Infinity, 1);
+						if (segLen < mergeRadius * 1.5) {
+							const vIn = { x: pPrev.x - pCorner.x, y: pPrev.y - pCorner.y };
+							const vMid = { x: pNext.x - pCorner.x, y: pNext.y - pCorner.y };
+							const vOut = { x: pAfter.x - pNext.x, y: pAfter.y - pNext.y }; // Note vector direction
+
+							// Calculate corner directions
+							// getAngleBetween returns angle from v1 to v2
+							const angle1 = getAngleBetween({ x: -vIn.x, y: -vIn.y }, { x: vMid.x, y: vMid.y });
+							// Fix: Angle2 should also use "Forward Incoming" (vMid) and "Forward Outgoing" (vOut)
+							const angle2 = getAngleBetween({ x: vMid.x, y: vMid.y }, { x: vOut.x, y: vOut.y });
+
+							// If both corners are in the same direction (product > 0) and angles aren't tiny
+							if (angle1 * angle2 > 0 && Math.abs(angle1) > 1 && Math.abs(angle2) > 1) {
+								// Calculate intersection of the two long edges (extensions of pPrev->pCorner and pNext->pAfter)
+								const intersection = getLineIntersection(pPrev, pCorner, pNext, pAfter);
+
+								if (intersection) {
+									// Check if intersection is within reasonable range
+									// If too far from pCorner or pNext, lines are nearly parallel - not suitable for merging
+									const dInt1 = dist(intersection, pCorner);
+									const dInt2 = dist(intersection, pNext);
+
+									// Limit: intersection distance shouldn't exceed 10x segment length
+									if (dInt1 < segLen * 10 && dInt2 < segLen * 10) {
+										// Found intersection, try building a larger arc centered on it
+										const t_v1 = { x: pPrev.x - intersection.x, y: pPrev.y - intersection.y };
+										const t_v2 = { x: pAfter.x - intersection.x, y: pAfter.y - intersection.y };
+										const t_mag1 = Math.sqrt(t_v1.x ** 2 + t_v1.y ** 2);
+										const t_mag2 = Math.sqrt(t_v2.x ** 2 + t_v2.y ** 2);
+
+										// Calculate included angle
+										const t_dot = (t_v1.x * t_v2.x + t_v1.y * t_v2.y) / (t_mag1 * t_mag2);
+										const t_safeDot = Math.max(-1, Math.min(1, t_dot));
+										const t_angleRad = Math.acos(t_safeDot);
+
+										// Calculate geometric limit radius (prevent bulging)
+										// Only limit when radius is very large.
+										// The previous t_limitRadius based on bridge segment depth was incorrect
+										// because we're trying to eliminate that depth during merging.
+										// So we remove that limit.
+
+										const t_tanVal = Math.tan(t_angleRad / 2);
+
+										// Limit radius to prevent consuming too much of the segments
+										// t_mag1 and t_mag2 are distances from intersection to pPrev/pAfter
+										// If the arc is too large, tangent points will exceed segment bounds
+										const t_maxAllowedRadius = Math.min(t_mag1 * 0.95, t_mag2 * 0.95);
+
+										const t_radius = getModeRadius(settings, radius, Math.max(prevSegWidth, nextSegWidth), t_maxAllowedRadius, t_tanVal);
+										let t_d = 0;
+										if (Math.abs(t_tanVal) > 0.0001) {
+											t_d = t_radius / t_tanVal;
+										}
+										const t_actualD = Math.min(t_d, t_maxAllowedRadius);
+
+										let t_limitByWidth = false;
+
+										// Line width check:
+										// If merged arc effective radius is less than half the line width, don't generate
+										// (prevents self-intersection/sharp angles)
+										const t_effectiveRadius = t_actualD * Math.abs(t_tanVal);
+										const t_maxLineWidth = Math.max(prevSegWidth, nextSegWidth); // Use larger width as conservative estimate
+
+										if (t_effectiveRadius < (t_maxLineWidth / 2) - 0.05) {
+											t_limitByWidth = true;
+											log(`Merge skipped on ${net}: Radius too small for width (Radius=${t_effectiveRadius.toFixed(2)}, Width=${t_maxLineWidth})`);
+										}
+
+										// The merged corner leaves the original tracks, so it is not shrunk for clearance:
+										// if it is too close to other nets, the two corners are smoothed one by one instead
+										if (ctx.obstacles && t_actualD > 0.05 && !t_limitByWidth
+											&& fitCornerClearance(ctx, net, layer, pPrev, intersection, pAfter, t_actualD, t_actualD, widths[i + 1] ?? nextSegWidth) <= 0) {
+											t_limitByWidth = true;
+											log(`Merge skipped on ${net}: merged corner too close to other nets`);
+										}
+
+										// Calculate arc angle
+										const t_sweptAngle = getAngleBetween(
+											{ x: -t_v1.x, y: -t_v1.y },
+											{ x: t_v2.x, y: t_v2.y },
+										);
+
+										// Use the next segment's line width after merge
+										const afterSegWidth = widths[i + 1] ?? nextSegWidth;
+
+										// Merged corner geometry, also measured against the length budget
+										const pStart = lerp(intersection, pPrev, t_actualD / t_mag1);
+										const pEnd = lerp(intersection, pAfter, t_actualD / t_mag2);
+										const mergedCorner: PathElement[] = [];
+										pushCornerGeometry(mergedCorner, settings.cornerStyle, pStart, pEnd, t_sweptAngle, afterSegWidth, transitionLength);
+										const t_shortening = (dist(pPrev, pCorner) + segLen + dist(pNext, pAfter))
+											- (dist(pPrev, pStart) + getElementsLength(mergedCorner) + dist(pEnd, pAfter));
+
+										if (hasBudget && t_actualD > 0.05 && !t_limitByWidth && t_shortening > ctx.lengthBudgets!.get(net)! + 1e-6) {
+											t_limitByWidth = true;
+											log(`Merge skipped on ${net}: shortens the net by ${t_shortening.toFixed(2)} mil, over its length budget`);
+										}
+
+										if (t_actualD > 0.05 && !t_limitByWidth) {
+											// Add straight line segment
+											if (dist(currentStart, pStart) > 0.001) {
+												newPath.push({
+													type: 'line',
+													start: currentStart,
+													end: pStart,
+													width: prevSegWidth,
+												});
+											}
+
+											newPath.push(...mergedCorner);
+											if (hasBudget)
+												ctx.lengthBudgets!.set(net, ctx.lengthBudgets!.get(net)! - t_shortening);
+
+											stats.smoothedCorners++;
+											currentStart = pEnd;
+
+											// Successfully merged, skip the next point
+											i++;
+											isMerged = true;
+
+											// Log
+											log(`Merged short segment on ${net} at index ${i - 1}, segLen: ${segLen.toFixed(2)}, new radius usage: ${t_actualD.toFixed(2)}`);
+										}
+										else {
+											log(`Merge calc failed on ${net}. actualD too small (${t_actualD})`);
+										}
+									}
+									else {
+										log(`Merge skipped on ${net}: Intersection too far (dInt1=${dInt1.toFixed(2)}, dInt2=${dInt2.toFixed(2)}, limit=${(segLen * 10).toFixed(2)})`);
+									}
+								}
+								else {
+									log(`Merge skipped on ${net}: Lines Parallel or No Intersection`);
+								}
+							}
+							else {
+								log(`Merge skipped on ${net}: Angles not suitable for U-turn (angle1=${angle1.toFixed(1)}, angle2=${angle2.toFixed(1)})`);
+							}
+						}
+					}
+				}
+			}
+			catch (err: any) {
+				log(`Merge logic failed at index ${i} on ${net}: ${err.message}`);
+				// fall through to normal logic
+			}
+
+			if (!isMerged) {
+				// Calculate angle between tracks
+				const v1 = {
+					x: pPrev.x - pCorner.x,
+					y: pPrev.y - pCorner.y,
+				};
+				const v2 = {
+					x: pNext.x - pCorner.x,
+					y: pNext.y - pCorner.y,
+				};
+
+				const mag1 = Math.sqrt(v1.x ** 2 + v1.y ** 2);
+				const mag2 = Math.sqrt(v2.x ** 2 + v2.y ** 2);
+
+				// Calculate included angle
+				const dot = (v1.x * v2.x + v1.y * v2.y) / (mag1 * mag2);
+				// Clamp dot to prevent numerical errors
+				const safeDot = Math.max(-1, Math.min(1, dot));
+				const angleRad = Math.acos(safeDot);
+
+				// Calculate tangent point distance
+				// d = R / tan(angle / 2)
+				// When angle approaches 180deg (PI), tan(PI/2) -> Inf, d -> 0
+				// When angle approaches 0deg (0), tan(0) -> 0, d -> Inf
+				const tanVal = Math.tan(angleRad / 2);
+
+				// If segment is too short, shrink radius to fit (max 45% of segment length)
+				const maxAllowedRadius = Math.min(mag1 * 0.45, mag2 * 0.45);
+
+				const modeRadius = getModeRadius(settings, radius, Math.max(prevSegWidth, nextSegWidth), maxAllowedRadius, tanVal);
+				let d = 0;
+				const concentricD = ctx.concentricDists.get(cornerKey(pathIndex, i));
+				if (concentricD !== undefined) {
+					d = concentricD;
+				}
+				else if (Math.abs(tanVal) > 0.0001) {
+					d = modeRadius / tanVal;
+				}
+				const actualD = Math.min(d, maxAllowedRadius);
+
+				let isSkippedDueToClamp = false;
+				const diagnosticsBefore = ctx.diagnostics.length;
+
+				// 0. A locked track or a kept arc ends here and must stay connected
+				const fixedReason = getFixedReason(ctx, pCorner);
+				if (fixedReason) {
+					isSkippedDueToClamp = true;
+					log(`Corner at (${pCorner.x.toFixed(2)}, ${pCorner.y.toFixed(2)}) [Net: ${net || 'No Net'}] skipped. ${fixedReason}`);
+					ctx.diagnostics.push({ net, layer, point: pCorner, status: 'skipped', reason: fixedReason });
+				}
+
+				// 1. Check segment length limit
+				// If actual tangent distance is significantly less than theoretical (< 95%), severe scaling occurred
+				// If segment too short for tangent on one side, skip arc generation, only print warning
+				// Force Arc option: if enabled, force generation (accept scaled radius), otherwise skip
+				if (!isSkippedDueToClamp && d > 0.001 && actualD < d * 0.95) {
+					if (cornerParams.forceArc) {
+						// Force mode: only log debug, don't skip
+						log(`Corner at (${pCorner.x.toFixed(2)}, ${pCorner.y.toFixed(2)}) clamped. Req: ${d.toFixed(2)}, Act: ${actualD.toFixed(2)}`);
+						ctx.diagnostics.push({ net, layer, point: pCorner, status: 'clamped', reason: `segment too short, tangent ${d.toFixed(2)} -> ${actualD.toFixed(2)} mil` });
+					}
+					else {
+						stats.clampedCorners++;
+						isSkippedDueToClamp = true;
+						log(`Corner at (${pCorner.x.toFixed(2)}, ${pCorner.y.toFixed(2)}) [Net: ${net || 'No Net'}] skipped. Segment too short for radius. Req: ${d.toFixed(2)}, Act: ${actualD.toFixed(2)}`);
+						ctx.diagnostics.push({ net, layer, point: pCorner, status: 'skipped', reason: `segment too short for radius (needs ${d.toFixed(2)}, fits ${actualD.toFixed(2)} mil)` });
+					}
+				}
+
+				// 2. Check line width limit (line too wide causes negative inner arc radius)
+				if (!isSkippedDueToClamp) {
+					const effectiveRadius = actualD * Math.abs(tanVal);
+					const maxLineWidth = Math.max(prevSegWidth, nextSegWidth);
+					// Inner radius = center radius - lineWidth/2
+					// Allow inner radius to be 0 (sharp corner), but not negative
+					// Must ensure effectiveRadius >= maxLineWidth / 2
+					// Use small tolerance (0.05) to allow "Radius == Width/2" within float precision
+					if (effectiveRadius < (maxLineWidth / 2) - 0.05) {
+						isSkippedDueToClamp = true;
+						log(`Corner at (${pCorner.x.toFixed(2)}, ${pCorner.y.toFixed(2)}) [Net: ${net || 'No Net'}] skipped. Radius too small for line width. Radius: ${effectiveRadius.toFixed(2)}, Width: ${maxLineWidth}`);
+						ctx.diagnostics.push({ net, layer, point: pCorner, status: 'skipped', reason: `radius ${effectiveRadius.toFixed(2)} mil too small for width ${maxLineWidth} mil` });
+					}
+				}
+
+				let finalActualD = actualD;
+				// Smallest tangent distance whose radius still holds the track width
+				const minD = Math.abs(tanVal) > 0.0001 ? (Math.max(prevSegWidth, nextSegWidth) / 2 - 0.05) / Math.abs(tanVal) : 0;
+
+				// Keep clear of copper on other nets: shrink the corner, or leave it sharp
+				if (ctx.obstacles && finalActualD > 0.05 && !isSkippedDueToClamp) {
+					const clearD = fitCornerClearance(ctx, net, layer, pPrev, pCorner, pNext, finalActualD, minD, nextSegWidth);
+					if (clearD <= 0) {
+						isSkippedDueToClamp = true;
+						log(`Corner at (${pCorner.x.toFixed(2)}, ${pCorner.y.toFixed(2)}) [Net: ${net || 'No Net'}] skipped. No radius keeps ${settings.drcClearance} mil clearance`);
+						ctx.diagnostics.push({ net, layer, point: pCorner, status: 'skipped', reason: `no radius keeps ${settings.drcClearance} mil clearance to other nets` });
+					}
+					else if (clearD < finalActualD) {
+						log(`Corner at (${pCorner.x.toFixed(2)}, ${pCorner.y.toFixed(2)}) shrunk for clearance. Tangent: ${finalActualD.toFixed(2)} -> ${clearD.toFixed(2)}`);
+						ctx.diagnostics.push({ net, layer, point: pCorner, status: 'clamped', reason: `clearance to other nets, tangent ${finalActualD.toFixed(2)} -> ${clearD.toFixed(2)} mil` });
+						finalActualD = clearD;
+					}
+				}
+
+				// Length-matched net: shrink the corner to what is left of its length budget
+				if (hasBudget && finalActualD > 0.05 && !isSkippedDueToClamp) {
+					const lengthD = fitCornerLength(ctx, net, pPrev, pCorner, pNext, finalActualD, nextSegWidth);
+					if (lengthD <= 0.05 || lengthD < minD) {
+						isSkippedDueToClamp = true;
+						log(`Corner at (${pCorner.x.toFixed(2)}, ${pCorner.y.toFixed(2)}) [Net: ${net || 'No Net'}] skipped. Length budget used up (${ctx.lengthBudgets!.get(net)!.toFixed(2)} mil left)`);
+						ctx.diagnostics.push({ net, layer, point: pCorner, status: 'skipped', reason: `length-matched net, ${ctx.lengthBudgets!.get(net)!.toFixed(2)} mil of shortening left` });
+					}
+					else if (lengthD < finalActualD) {
+						log(`Corner at (${pCorner.x.toFixed(2)}, ${pCorner.y.toFixed(2)}) shrunk for length matching. Tangent: ${finalActualD.toFixed(2)} -> ${lengthD.toFixed(2)}`);
+						ctx.diagnostics.push({ net, layer, point: pCorner, status: 'clamped', reason: `length matching, tangent ${finalActualD.toFixed(2)} -> ${lengthD.toFixed(2)} mil` });
+						finalActualD = lengthD;
+					}
+				}
+
+				// A concentric member that cannot keep its tangent distance would leave the shared centre
+				const groupKey = ctx.concentricGroupOf.get(cornerKey(pathIndex, i));
+				if (groupKey && (isSkippedDueToClamp || finalActualD < d - 0.001) && !ctx.brokenGroups.has(groupKey)) {
+					const cause = ctx.diagnostics.slice(diagnosticsBefore).pop()?.reason ?? 'corner too small';
+					ctx.brokenGroups.set(groupKey, `one track cannot keep the shared centre (${cause})`);
+				}
+
+				// Only generate arc when tangent distance is valid and large enough
+				if (finalActualD > 0.05 && !isSkippedDueToClamp) {
+					const pStart = lerp(pCorner, pPrev, finalActualD / mag1);
+					const pEnd = lerp(pCorner, pNext, finalActualD / mag2);
+
+					// Add line [currentStart -> tangentPoint1], using previous segment width
+					newPath.push({
+						type: 'line',
+						start: currentStart,
+						end: pStart,
+						width: prevSegWidth,
+					});
+
+					// Calculate arc angle (signed)
+					const sweptAngle = getAngleBetween(
+						{ x: -v1.x, y: -v1.y },
+						{ x: v2.x, y: v2.y },
+					);
+
+					// Add arc (or chamfer), using next segment width (connects more naturally with next segment)
+					const cornerStartIndex = newPath.length;
+					const apex = pushCornerGeometry(newPath, settings.cornerStyle, pStart, pEnd, sweptAngle, nextSegWidth, transitionLength);
+					if (hasBudget) {
+						const shortening = 2 * finalActualD - getElementsLength(newPath.slice(cornerStartIndex));
+						ctx.lengthBudgets!.set(net, ctx.lengthBudgets!.get(net)! - shortening);
+					}
+					if (path.branchCorners.has(i))
+						currentStubMoves.push({ from: pCorner, to: apex });
+
+					stats.smoothedCorners++;
+					currentStart = pEnd;
+				}
+				else {
+					// Cannot smooth (radius too large or angle unsuitable), keep original corner
+					newPath.push({
+						type: 'line',
+						start: currentStart,
+						end: pCorner,
+						width: prevSegWidth,
+					});
+					currentStart = pCorner;
+
+					// Log failure
+					if (!isSkippedDueToClamp && actualD > 0.05 && finalActualD > 0.05) {
+						log(`Corner at (${pCorner.x.toFixed(2)}, ${pCorner.y.toFixed(2)}) skipped. Angle or Radius invalid. net=${net || 'No Net'} actualD=${actualD.toFixed(3)}`);
+					}
+					// Nearly straight points are not corners worth reporting
+					if (!isSkippedDueToClamp && angleRad < Math.PI * 0.995) {
+						ctx.diagnostics.push({ net, layer, point: pCorner, status: 'skipped', reason: `corner too small to smooth (tangent ${actualD.toFixed(3)} mil)` });
+					}
+				}
+			}
+		}
+
+		// Last straight segment, using the last segment's line width
+		const lastSegWidth = widths[widths.length - 1] ?? widths[0];
+		newPath.push({
+			type: 'line',
+			start: currentStart,
+			end: points[points.length - 1],
+			width: lastSegWidth,
+		});
+		const elements = path.closed ? closeRing(newPath, path.sourcePoints[0]) : newPath;
+
+		// Already smoothed with these settings, leave the primitives alone
+		if (isSameGeometry(elements, path)) {
+			if (hasBudget)
+				ctx.lengthBudgets!.set(net, budgetBefore);
+			log(`Path on ${net || 'No Net'} (layer ${layer}) unchanged, skipped`);
+			return null;
+		}
+
+		return toPlannedPath(path, elements, currentStubMoves, stats);
+	}
+
+	return null;
+}
+
+/**
+ * Totals of a set of planned paths, so the figures cover exactly the paths that are applied
+ * @param paths Planned paths
+ */
+export function getPlanStats(paths: PlannedPath[]): Pick<SmoothingPlan, 'processedPaths' | 'smoothedCorners' | 'clampedCorners'> {
+	return {
+		processedPaths: paths.length,
+		smoothedCorners: paths.reduce((sum, path) => sum + path.smoothedCorners, 0),
+		clampedCorners: paths.reduce((sum, path) => sum + path.clampedCorners, 0),
+	};
+}
+
+/**
+ * Plan the smoothing of a set of segments.
+ * Segments are grouped by net and layer, split into continuous paths, and every corner
+ * gets the geometry its rule, radius mode and style ask for. Nothing is created or deleted.
+ * @param segments Tracks, polyline segments and arcs to smooth
+ * @param settings Extension settings
+ * @param options Net classes and debug output
+ */
+export function planSmoothing(
+	segments: PlannerSegment[],
+	settings: BeautifySettings,
+	options: PlannerOptions = {},
+): SmoothingPlan {
+	const log = options.log || (() => {});
+
+	const fixedPoints = createPointIndex<string>(settings.connectivityTolerance ?? 0.1);
+	for (const point of options.fixedPoints ?? [])
+		addPoint(fixedPoints, point, 'locked track attached');
+	// Arcs kept as they are end paths; corners on their ends stay sharp so they stay connected
+	const keepArc = (segment: PlannerSegment, reason: string) => {
+		log(`Arc ${segment.id} kept as is (${reason})`);
+		addPoint(fixedPoints, segment.start, 'arc kept as is attached');
+		addPoint(fixedPoints, segment.end, 'arc kept as is attached');
+	};
+
+	// Group by net and layer
+	const groups = new Map<string, TrackSegment[]>();
+	for (const segment of segments) {
+		// Arcs whose tangents never meet (half circles) cannot be re-smoothed
+		if (segment.arcAngle !== undefined && !getArcCorner(segment.start, segment.end, segment.arcAngle)) {
+			keepArc(segment, 'no tangent intersection');
+			continue;
+		}
+		const key = `${segment.net}#@#${segment.layer}`;
+		if (!groups.has(key))
+			groups.set(key, []);
+		groups.get(key)!.push({
+			p1: segment.start,
+			p2: segment.end,
+			width: segment.width,
+			id: segment.id,
+			source: segment,
+			arcAngle: segment.arcAngle,
+		});
+	}
+
+	const paths: TrackPath[] = [];
+	for (const groupSegs of groups.values()) {
+		// Only arcs that run on smoothly into their tracks are collapsed back into corners
+		const kinked = findKinkedArcs(groupSegs, settings.connectivityTolerance ?? 0.1);
+		for (const seg of kinked)
+			keepArc(seg.source, 'not tangent to the track it meets');
+		const segs = groupSegs.filter(seg => !kinked.has(seg));
+		if (segs.length === 0)
+			continue;
+
+		const { net, layer } = segs[0].source;
+		const cornerParams = resolveCornerParams(settings, net, layer, options.netClasses);
+		paths.push(...extractPaths(segs, net, layer, cornerParams, settings));
+	}
+
+	// Concentric groups only hold while every member keeps its tangent distance. When clearance,
+	// length matching or a locked track changes one member, the whole group is rejected and
+	// the paths are planned again, with its corners smoothed independently.
+	const excludedGroups = new Map<string, string>();
+	for (;;) {
+		// Plan concentric corners across all paths before any single path
+		const concentricPlan = settings.concentricArcs
+			? planConcentricCorners(paths, settings, log, excludedGroups)
+			: { tangentDists: new Map<string, number>(), groupOf: new Map<string, string>(), groupCount: 0, rejected: [] };
+
+		const ctx: PlanContext = {
+			settings,
+			log,
+			concentricDists: concentricPlan.tangentDists,
+			concentricGroupOf: concentricPlan.groupOf,
+			brokenGroups: new Map(),
+			diagnostics: [],
+			obstacles: settings.enableDRC && options.obstacles ? options.obstacles : null,
+			lengthBudgets: options.lengthBudgets ? new Map(options.lengthBudgets) : null,
+			fixedPoints: fixedPoints.cells.size > 0 ? fixedPoints : null,
+		};
+
+		const planned: PlannedPath[] = [];
+		for (const [pathIndex, path] of paths.entries()) {
+			const result = planPath(path, pathIndex, ctx);
+			if (result)
+				planned.push(result);
+		}
+
+		if (ctx.brokenGroups.size > 0) {
+			log(`Planning again without ${ctx.brokenGroups.size} concentric groups`);
+			for (const [groupKey, reason] of ctx.brokenGroups)
+				excludedGroups.set(groupKey, reason);
+			continue;
+		}
+
+		return {
+			paths: planned,
+			diagnostics: ctx.diagnostics,
+			...getPlanStats(planned),
+			concentricGroups: concentricPlan.groupCount,
+			concentricRejections: concentricPlan.rejected.map(rejection => ({
+				reason: rejection.reason,
+				corners: rejection.members.map(m => ({ net: paths[m.pathIndex].net, point: m.corner })),
+			})),
+		};
+	}
+}
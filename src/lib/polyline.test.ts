@@ -0,0 +1,43 @@
+import type { PathElement } from './planner';
+import { describe, expect, it } from 'vitest';
+import { parsePolylineSource, toPolylineSource } from './polyline';
+
+describe('parsePolylineSource', () => {
+	it('reads straight runs and arcs', () => {
+		expect(parsePolylineSource([0, 0, 'L', 100, 0, 'ARC', 90, 120, 20, 'L', 120, 100])).toEqual([
+			{ start: { x: 0, y: 0 }, end: { x: 100, y: 0 } },
+			{ start: { x: 100, y: 0 }, end: { x: 120, y: 20 }, arcAngle: 90 },
+			{ start: { x: 120, y: 20 }, end: { x: 120, y: 100 } },
+		]);
+	});
+
+	it('keeps only the end point of bezier runs', () => {
+		expect(parsePolylineSource([0, 0, 'C', 10, 10, 20, 10, 30, 0])).toEqual([
+			{ start: { x: 0, y: 0 }, end: { x: 30, y: 0 } },
+		]);
+	});
+
+	it('drops zero-length pieces and stray values', () => {
+		expect(parsePolylineSource([0, 0, 'L', 0, 0, 50, 0, 'X'])).toEqual([
+			{ start: { x: 0, y: 0 }, end: { x: 50, y: 0 } },
+		]);
+	});
+
+	it('reads nothing from a source without a start point', () => {
+		expect(parsePolylineSource(['L', 10, 10])).toEqual([]);
+	});
+});
+
+describe('toPolylineSource', () => {
+	it('writes path elements back as one source', () => {
+		const elements: PathElement[] = [
+			{ type: 'line', start: { x: 0, y: 0 }, end: { x: 100, y: 0 }, width: 10 },
+			{ type: 'arc', start: { x: 100, y: 0 }, end: { x: 120, y: 20 }, angle: 90, width: 10 },
+			{ type: 'line', start: { x: 120, y: 20 }, end: { x: 120, y: 60 }, width: 10 },
+			{ type: 'line', start: { x: 120, y: 60 }, end: { x: 120, y: 100 }, width: 10 },
+		];
+		const source = toPolylineSource(elements);
+		expect(source).toEqual([0, 0, 'L', 100, 0, 'ARC', 90, 120, 20, 'L', 120, 60, 120, 100]);
+		expect(parsePolylineSource(source)).toHaveLength(4);
+	});
+});
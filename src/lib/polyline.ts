@@ -0,0 +1,90 @@
+/**
+ * Polylines
+ * Conversion between polyline polygon sources (`x y L x y ...`, `ARC`/`CARC`) and
+ * track/arc segments, so a smoothed polyline can be written back as a single primitive.
+ */
+
+import type { Point } from './math';
+import type { PathElement } from './planner';
+import { dist } from './math';
+
+/**
+ * Straight or arc piece of a polyline
+ */
+export interface PolylinePiece {
+	start: Point;
+	end: Point;
+	arcAngle?: number; // Signed arc angle (degrees), set for arc pieces
+}
+
+/**
+ * Split a polyline polygon source into its pieces.
+ * Bezier (`C`) runs keep only their end point.
+ * @param source Polygon source array
+ */
+export function parsePolylineSource(source: any[]): PolylinePiece[] {
+	const pieces: PolylinePiece[] = [];
+	let i = 0;
+	const num = () => Number(source[i++]);
+	if (typeof source[0] !== 'number' || typeof source[1] !== 'number')
+		return pieces;
+	let current: Point = { x: num(), y: num() };
+	let mode = 'L';
+
+	while (i < source.length) {
+		const token = source[i];
+		if (token === 'ARC' || token === 'CARC') {
+			i++;
+			const arcAngle = num();
+			const end = { x: num(), y: num() };
+			pieces.push({ start: current, end, arcAngle });
+			current = end;
+		}
+		else if (token === 'C') {
+			i++;
+			mode = 'C';
+		}
+		else if (token === 'L') {
+			i++;
+			mode = 'L';
+		}
+		else if (typeof token === 'number' && typeof source[i + 1] === 'number') {
+			if (mode === 'C')
+				i += 4; // Control points
+			const end = { x: num(), y: num() };
+			if (Number.isNaN(end.x) || Number.isNaN(end.y))
+				break;
+			pieces.push({ start: current, end });
+			current = end;
+		}
+		else {
+			i++; // Stray value
+		}
+	}
+	return pieces.filter(p => dist(p.start, p.end) > 0.001);
+}
+
+/**
+ * Polygon source of a polyline running through path elements in order
+ * @param elements Consecutive lines and arcs
+ */
+export function toPolylineSource(elements: PathElement[]): any[] {
+	const pieces = elements.filter(e => dist(e.start, e.end) > 0.001);
+	if (pieces.length === 0)
+		return [];
+	const source: any[] = [pieces[0].start.x, pieces[0].start.y];
+	let mode = '';
+	for (const e of pieces) {
+		if (e.type === 'arc') {
+			source.push('ARC', e.angle!, e.end.x, e.end.y);
+			mode = 'ARC';
+		}
+		else {
+			if (mode !== 'L')
+				source.push('L');
+			source.push(e.end.x, e.end.y);
+			mode = 'L';
+		}
+	}
+	return source;
+}
@@ -0,0 +1,95 @@
+import type { ScopeFilter } from './scope';
+import { describe, expect, it } from 'vitest';
+import { isLayerInScope, isNetInScope, isPointInScope, isPrimitiveLocked, parseNetPatterns, splitByScope } from './scope';
+
+const WHOLE_BOARD: ScopeFilter = { layers: null, include: [], exclude: [], region: null, protectedNets: [] };
+
+function filterWith(changes: Partial<ScopeFilter>): ScopeFilter {
+	return { ...WHOLE_BOARD, ...changes };
+}
+
+/**
+ * Track primitive as read from the board
+ */
+function track(net: string, layer: number, start: [number, number], end: [number, number], locked = false) {
+	return {
+		getState_Net: () => net,
+		getState_Layer: () => layer,
+		getState_StartX: () => start[0],
+		getState_StartY: () => start[1],
+		getState_EndX: () => end[0],
+		getState_EndY: () => end[1],
+		getState_PrimitiveLock: () => locked,
+	};
+}
+
+describe('parseNetPatterns', () => {
+	it('splits on commas and drops empty entries', () => {
+		expect(parseNetPatterns(' USB_*, ,GND ')).toEqual(['USB_*', 'GND']);
+		expect(parseNetPatterns('')).toEqual([]);
+	});
+});
+
+describe('scope checks', () => {
+	it('covers everything without limits', () => {
+		expect(isNetInScope(WHOLE_BOARD, 'ANY')).toBe(true);
+		expect(isLayerInScope(WHOLE_BOARD, 7)).toBe(true);
+		expect(isPointInScope(WHOLE_BOARD, { x: 1e6, y: -1e6 })).toBe(true);
+	});
+
+	it('applies net include and exclude patterns', () => {
+		const filter = filterWith({ include: ['USB_*'], exclude: ['USB_VBUS'] });
+		expect(isNetInScope(filter, 'USB_DP')).toBe(true);
+		expect(isNetInScope(filter, 'USB_VBUS')).toBe(false);
+		expect(isNetInScope(filter, 'GND')).toBe(false);
+	});
+
+	it('limits layers', () => {
+		const filter = filterWith({ layers: [1, 2] });
+		expect(isLayerInScope(filter, 2)).toBe(true);
+		expect(isLayerInScope(filter, 3)).toBe(false);
+	});
+
+	it('limits to the inside of the region', () => {
+		const filter = filterWith({ region: [{ x: 0, y: 0 }, { x: 100, y: 0 }, { x: 100, y: 100 }, { x: 0, y: 100 }] });
+		expect(isPointInScope(filter, { x: 50, y: 50 })).toBe(true);
+		expect(isPointInScope(filter, { x: 150, y: 50 })).toBe(false);
+	});
+});
+
+describe('splitByScope', () => {
+	it('keeps tracks with both ends inside the scope', () => {
+		const filter = filterWith({ layers: [1], region: [{ x: 0, y: 0 }, { x: 100, y: 0 }, { x: 100, y: 100 }, { x: 0, y: 100 }] });
+		const inside = track('A', 1, [10, 10], [90, 10]);
+		const { kept, skips } = splitByScope(filter, [
+			inside,
+			track('A', 1, [10, 10], [190, 10]),
+			track('A', 2, [10, 10], [90, 10]),
+		]);
+		expect(kept).toEqual([inside]);
+		expect(skips).toEqual({ locked: 0, protectedNet: 0, outOfScope: 2 });
+	});
+});
+
+describe('locked tracks and protected nets', () => {
+	it('skips them whatever the scope', () => {
+		const filter = filterWith({ protectedNets: ['GND', 'VCC_*'] });
+		const { kept, skips } = splitByScope(filter, [
+			track('A', 1, [0, 0], [10, 0], true),
+			track('GND', 1, [0, 0], [10, 0]),
+			track('VCC_3V3', 1, [0, 0], [10, 0]),
+			track('A', 1, [0, 0], [10, 0]),
+		]);
+		expect(kept).toHaveLength(1);
+		expect(skips).toEqual({ locked: 1, protectedNet: 2, outOfScope: 0 });
+	});
+
+	it('keeps protected nets out of scope even when included', () => {
+		expect(isNetInScope(filterWith({ include: ['GND'], protectedNets: ['GND'] }), 'GND')).toBe(false);
+	});
+
+	it('reads the lock of a primitive', () => {
+		expect(isPrimitiveLocked(track('A', 1, [0, 0], [1, 0], true))).toBe(true);
+		expect(isPrimitiveLocked({})).toBe(false);
+	});
+});
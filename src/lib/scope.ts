@@ -0,0 +1,211 @@
+/**
+ * Scope Filter
+ * Narrows what an operation may touch beyond "Selected" or "All": a layer list,
+ * net include/exclude patterns and, optionally, the area of a selected region.
+ * Locked primitives and protected nets are never touched, whatever the scope.
+ */
+
+import type { Point } from './math';
+import type { BeautifySettings } from './settings';
+import { matchNetPattern } from './cornerRules';
+import { debugLog } from './logger';
+import { parsePolylineSource } from './polyline';
+
+/**
+ * What an operation may touch
+ */
+export interface ScopeFilter {
+	layers: number[] | null; // Layer IDs, null = every layer
+	include: string[]; // Net patterns to touch, empty = every net
+	exclude: string[]; // Net patterns to leave alone
+	region: Point[] | null; // Outline of the selected region, null = whole board
+	protectedNets: string[]; // Net patterns no operation touches
+}
+
+/**
+ * Tracks left out of an operation, by reason
+ */
+export interface ScopeSkips {
+	locked: number; // Locked by the designer
+	protectedNet: number; // On a protected net
+	outOfScope: number; // Outside the layers, nets or region of the scope
+}
+
+/**
+ * Split a comma-separated list of net patterns (see matchNetPattern)
+ * @param spec Patterns as written in the settings
+ */
+export function parseNetPatterns(spec: string): string[] {
+	return (spec || '').split(',').map(p => p.trim()).filter(Boolean);
+}
+
+/**
+ * Whether a point lies inside a polygon (even-odd rule)
+ */
+function isInsidePolygon(p: Point, polygon: Point[]): boolean {
+	let inside = false;
+	for (let i = 0, j = polygon.length - 1; i < polygon.length; j = i++) {
+		const a = polygon[i];
+		const b = polygon[j];
+		if ((a.y > p.y) !== (b.y > p.y) && p.x < ((b.x - a.x) * (p.y - a.y)) / (b.y - a.y) + a.x)
+			inside = !inside;
+	}
+	return inside;
+}
+
+/**
+ * Outline of the first region primitive in the selection.
+ * Arc edges of the region are followed by their chord.
+ */
+async function getSelectedRegionOutline(): Promise<Point[] | null> {
+	try {
+		const selectedIds = await eda.pcb_SelectControl.getAllSelectedPrimitives_PrimitiveId();
+		const validIds = (selectedIds || []).filter(id => id && typeof id === 'string');
+		if (validIds.length === 0)
+			return null;
+		const regions = await eda.pcb_PrimitiveRegion.get(validIds);
+		for (const region of (Array.isArray(regions) ? regions : [regions]).filter(Boolean)) {
+			const polygon = region.getState_ComplexPolygon?.();
+			const source = typeof polygon?.getSource === 'function' ? polygon.getSource() : null;
+			// A region with holes gives one source per outline, the first is the outer one
+			const outer = Array.isArray(source?.[0]) ? source[0] : source;
+			const pieces = Array.isArray(outer) ? parsePolylineSource(outer) : [];
+			if (pieces.length >= 2)
+				return [pieces[0].start, ...pieces.map(piece => piece.end)];
+		}
+	}
+	catch (e: any) {
+		debugLog(`Failed to read selected region: ${e.message || e}`, 'Scope');
+	}
+	return null;
+}
+
+/**
+ * Build the scope filter from the settings and the current selection
+ * @param settings Extension settings
+ */
+export async function getScopeFilter(settings: BeautifySettings): Promise<ScopeFilter> {
+	const layers = settings.scopeLayers || [];
+	const filter: ScopeFilter = {
+		layers: layers.length > 0 ? layers.map(Number) : null,
+		include: parseNetPatterns(settings.scopeNetInclude),
+		exclude: parseNetPatterns(settings.scopeNetExclude),
+		region: settings.scopeUseRegion ? await getSelectedRegionOutline() : null,
+		protectedNets: parseNetPatterns(settings.protectedNets),
+	};
+	if (settings.scopeUseRegion && !filter.region)
+		debugLog('No region selected, scope covers the whole board', 'Scope');
+	return filter;
+}
+
+/**
+ * Whether the filter narrows anything at all
+ * @param filter Scope filter
+ */
+export function isScopeLimited(filter: ScopeFilter): boolean {
+	return !!filter.layers || filter.include.length > 0 || filter.exclude.length > 0 || !!filter.region;
+}
+
+/**
+ * Whether a primitive is locked
+ * @param primitive Any primitive
+ */
+export function isPrimitiveLocked(primitive: any): boolean {
+	return typeof primitive?.getState_PrimitiveLock === 'function' && !!primitive.getState_PrimitiveLock();
+}
+
+/**
+ * Whether a net is protected
+ * @param patterns Protected net patterns
+ * @param net Net name
+ */
+export function isNetProtected(patterns: string[], net: string): boolean {
+	return patterns.some(p => matchNetPattern(p, net));
+}
+
+/**
+ * Whether a net is in scope
+ * @param filter Scope filter
+ * @param net Net name
+ */
+export function isNetInScope(filter: ScopeFilter, net: string): boolean {
+	if (isNetProtected(filter.protectedNets, net))
+		return false;
+	if (filter.include.length > 0 && !filter.include.some(p => matchNetPattern(p, net)))
+		return false;
+	return !filter.exclude.some(p => matchNetPattern(p, net));
+}
+
+/**
+ * Whether a layer is in scope
+ * @param filter Scope filter
+ * @param layer Layer ID
+ */
+export function isLayerInScope(filter: ScopeFilter, layer: number): boolean {
+	return !filter.layers || filter.layers.includes(Number(layer));
+}
+
+/**
+ * Whether a point is inside the scope region
+ * @param filter Scope filter
+ * @param point Point to check
+ */
+export function isPointInScope(filter: ScopeFilter, point: Point): boolean {
+	return !filter.region || isInsidePolygon(point, filter.region);
+}
+
+/**
+ * Whether a track or arc primitive is in scope: its net and layer, and both ends inside the region
+ * @param filter Scope filter
+ * @param track Track or arc primitive
+ */
+export function isTrackInScope(filter: ScopeFilter, track: any): boolean {
+	return isNetInScope(filter, track.getState_Net?.() || '')
+		&& isLayerInScope(filter, track.getState_Layer?.())
+		&& isPointInScope(filter, { x: track.getState_StartX(), y: track.getState_StartY() })
+		&& isPointInScope(filter, { x: track.getState_EndX(), y: track.getState_EndY() });
+}
+
+/**
+ * Why an operation must leave a track or arc alone, null if it may touch it
+ * @param filter Scope filter
+ * @param track Track or arc primitive
+ */
+export function getSkipReason(filter: ScopeFilter, track: any): keyof ScopeSkips | null {
+	if (isPrimitiveLocked(track))
+		return 'locked';
+	if (isNetProtected(filter.protectedNets, track.getState_Net?.() || ''))
+		return 'protectedNet';
+	if (!isTrackInScope(filter, track))
+		return 'outOfScope';
+	return null;
+}
+
+/**
+ * Split tracks and arcs into those an operation may touch and the skipped ones, by reason
+ * @param filter Scope filter
+ * @param tracks Track and arc primitives
+ */
+export function splitByScope(filter: ScopeFilter, tracks: any[]): { kept: any[]; skips: ScopeSkips } {
+	const skips: ScopeSkips = { locked: 0, protectedNet: 0, outOfScope: 0 };
+	const kept = tracks.filter((track) => {
+		const reason = getSkipReason(filter, track);
+		if (reason)
+			skips[reason]++;
+		return !reason;
+	});
+	return { kept, skips };
+}
+
+/**
+ * Summary text of skipped locked and protected tracks, empty if there are none
+ * @param skips Skipped tracks
+ */
+export function describeSkips(skips: ScopeSkips): string {
+	const parts: string[] = [];
+	if (skips.locked > 0)
+		parts.push(`${eda.sys_I18n.text('锁定')} ${skips.locked}`);
+	if (skips.protectedNet > 0)
+		parts.push(`${eda.sys_I18n.text('受保护网络')} ${skips.protectedNet}`);
+	return parts.length > 0 ? `${eda.sys_I18n.text('已跳过')}: ${parts.join(', ')}` : '';
+}
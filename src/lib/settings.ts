@@ -1,27 +1,102 @@
+import type { TaperProfile } from './math';
+
+/**
+ * Corner radius rule, matched by net pattern, net class and layer
+ */
+export interface CornerRule {
+	enabled: boolean;
+	net: string; // Net name glob (e.g. USB_*) or /regex/, empty matches any net
+	netClass: string; // Net class name, empty matches any class
+	layer: number | null; // Layer ID, null matches any layer
+	radius: number; // Corner radius (in settings unit)
+	forceArc: boolean;
+	mergeShortSegments: boolean;
+}
+
 export interface BeautifySettings {
 	syncWidthTransition: boolean; // Auto-handle width transitions when smoothing
 	widthTransitionRatio: number; // Width transition length coefficient
 	widthTransitionSegments: number; // Width transition segment count
-	cornerRadius: number; // Corner radius
+	widthTransitionProfile: TaperProfile; // How the width changes along a transition
+	widthTransitionOutput: 'lines' | 'polygon'; // Build transitions from stepped line segments or as one filled polygon
+	widthTransitionPlacement: 'narrow' | 'wide' | 'center'; // Put transitions on the narrow side, the wide side or centred on the junction
+	widthTransitionFallback: boolean; // Use the side with more room when the chosen one cannot hold the full transition
+	padEntryTransitions: boolean; // Also taper tracks whose width differs from the short side of the pad they end on
+	widthTransitionBezierP1: number; // Custom Bezier profile: first control value (0-1 of the width change)
+	widthTransitionBezierP2: number; // Custom Bezier profile: second control value (0-1 of the width change)
+	cornerRadius: number; // Corner radius (fixed radius, or the cap in maximum-that-fits mode)
+	radiusMode: 'fixed' | 'widthMultiple' | 'maxFit'; // How the radius of each corner is chosen
+	radiusWidthMultiple: number; // Radius = track width * multiple (width-proportional mode)
+	cornerStyle: 'arc' | 'chamfer' | 'doubleChamfer' | 'clothoid'; // Corner shape: arc, single 45° chamfer, double chamfer or clothoid
+	clothoidLength: number; // Curvature transition length at each end of a clothoid corner (mil)
+	cornerRules: CornerRule[]; // Per-net/net-class/layer radius rules (first match wins)
+	concentricArcs: boolean; // Smooth parallel tracks that turn together with concentric arcs
+	concentricPitch: number; // Max centre-to-centre spacing of tracks in a concentric group (mil)
 	mergeShortSegments: boolean; // Whether to merge short segments
-	unit: 'mm' | 'mil'; // Unit setting
+	unit: 'mm' | 'mil'; // Unit of the corner radius and rule radii (other lengths are always mil)
 	debug: boolean; // Debug mode
 	forceArc: boolean; // Force arc generation (even if segment is too short, causing truncation)
+	previewBeforeApply: boolean; // Show planned geometry and ask before changing any track
+	cleanupBeforeSmoothing: boolean; // Run Clean Up Tracks on the same scope before smoothing
+	keepPolylines: boolean; // Write smoothed polylines back as one polyline with arc segments
+	connectivityTolerance: number; // Max gap between endpoints that still counts as connected (mil)
+	scopeLayers: number[]; // Layers operations may touch (empty = every layer)
+	scopeNetInclude: string; // Net patterns operations may touch, comma-separated (empty = every net)
+	scopeNetExclude: string; // Net patterns operations leave alone, comma-separated
+	scopeUseRegion: boolean; // Limit operations to the area of a selected region primitive
+	protectedNets: string; // Net patterns no operation touches, comma-separated
 	enableDRC: boolean; // Enable DRC check
 	drcClearance: number; // DRC safety clearance (mil)
+	acuteAngleThreshold: number; // Acute Angle Check reports corners with a smaller included angle (degrees)
+	acuteRepairMode: 'chamfer' | 'arc'; // Acute corner repair: extra segment or arc
+	acuteRepairSize: number; // Cut-back of the extra segment, or radius of the arc (mil)
+	lengthReport: boolean; // Show per-net length before/after each smoothing run
+	lengthMatchMode: 'off' | 'limitRadius' | 'rollback'; // How length-matched groups are kept within tolerance
+	lengthMatchGroups: string; // Length-matched groups: net patterns separated by commas, groups by semicolons
+	lengthMatchTolerance: number; // Extra skew a group may gain from smoothing (mil)
 }
 
 const DEFAULT_SETTINGS: BeautifySettings = {
 	syncWidthTransition: false,
 	widthTransitionRatio: 3, // Transition length = width difference * 3
 	widthTransitionSegments: 25,
+	widthTransitionProfile: 'smooth',
+	widthTransitionOutput: 'lines',
+	widthTransitionPlacement: 'narrow',
+	widthTransitionFallback: true,
+	padEntryTransitions: false,
+	widthTransitionBezierP1: 0,
+	widthTransitionBezierP2: 1,
 	cornerRadius: 20, // Default 20mil
+	radiusMode: 'fixed',
+	radiusWidthMultiple: 3,
+	cornerStyle: 'arc',
+	clothoidLength: 10,
+	cornerRules: [],
+	concentricArcs: false,
+	concentricPitch: 20,
 	mergeShortSegments: false,
 	unit: 'mil',
 	debug: false,
 	forceArc: true,
+	previewBeforeApply: false,
+	cleanupBeforeSmoothing: false,
+	keepPolylines: false,
+	connectivityTolerance: 0.1,
+	scopeLayers: [],
+	scopeNetInclude: '',
+	scopeNetExclude: '',
+	scopeUseRegion: false,
+	protectedNets: '',
 	enableDRC: false,
 	drcClearance: 6,
+	acuteAngleThreshold: 90,
+	acuteRepairMode: 'chamfer',
+	acuteRepairSize: 10,
+	lengthReport: false,
+	lengthMatchMode: 'off',
+	lengthMatchGroups: '',
+	lengthMatchTolerance: 5,
 };
 
 const SETTINGS_CACHE_KEY = '_jlc_beautify_settings_cache';
@@ -30,7 +105,7 @@ const SETTINGS_CACHE_KEY = '_jlc_beautify_settings_cache';
  * Get default settings
  */
 export function getDefaultSettings(): BeautifySettings {
-	return { ...DEFAULT_SETTINGS };
+	return { ...DEFAULT_SETTINGS, cornerRules: [] };
 }
 
 /**
@@ -1,6 +1,8 @@
 import { getArcLineWidthMap, makeArcWidthKey } from './beautify';
-import { debugLog, logError, logWarn } from './logger';
+import { debugLog, logError, logInfo, logWarn } from './logger';
 import { isClose } from './math';
+import { describeSkips, isNetProtected, isPrimitiveLocked, parseNetPatterns } from './scope';
+import { getSettings } from './settings';
 
 const SNAPSHOT_STORAGE_KEY_V2 = 'jlc_eda_beautify_snapshots_v2';
 // In-memory cache key, mounted on the eda object
@@ -467,8 +469,24 @@ export async function restoreSnapshot(snapshotId: number, showToast: boolean = t
 		}
 
 		// Restore logic (Diff-based)
-		const currentLines = extractPrimitiveData(await eda.pcb_PrimitiveLine.getAll() || [], 'line', currentPcbId);
-		const currentArcs = extractPrimitiveData(await eda.pcb_PrimitiveArc.getAll() || [], 'arc', currentPcbId);
+		const rawLines = await eda.pcb_PrimitiveLine.getAll() || [];
+		const rawArcs = await eda.pcb_PrimitiveArc.getAll() || [];
+		const currentLines = extractPrimitiveData(rawLines, 'line', currentPcbId);
+		const currentArcs = extractPrimitiveData(rawArcs, 'arc', currentPcbId);
+
+		// Locked primitives and protected nets stay as they are on the board
+		const lockedIds = new Set([...rawLines, ...rawArcs].filter(isPrimitiveLocked).map(p => p.getState_PrimitiveId()));
+		const protectedNets = parseNetPatterns((await getSettings()).protectedNets);
+		const skips = { locked: 0, protectedNet: 0, outOfScope: 0 };
+		const isKept = (item: { id: string; net: string }) => {
+			if (lockedIds.has(item.id))
+				skips.locked++;
+			else if (isNetProtected(protectedNets, item.net || ''))
+				skips.protectedNet++;
+			else
+				return false;
+			return true;
+		};
 
 		const currentLineMap = new Map(currentLines.map(l => [l.id, l]));
 		const linesToDelete: string[] = [];
@@ -476,20 +494,21 @@ export async function restoreSnapshot(snapshotId: number, showToast: boolean = t
 
 		for (const snapLine of snapshot.lines) {
 			if (currentLineMap.has(snapLine.id)) {
-				if (isLineEqual(snapLine, currentLineMap.get(snapLine.id))) {
-					currentLineMap.delete(snapLine.id);
-				}
-				else {
+				const current = currentLineMap.get(snapLine.id)!;
+				currentLineMap.delete(snapLine.id);
+				if (!isLineEqual(snapLine, current) && !isKept(current)) {
 					linesToDelete.push(snapLine.id);
 					linesToCreate.push(snapLine);
-					currentLineMap.delete(snapLine.id);
 				}
 			}
-			else {
+			else if (!isKept(snapLine)) {
 				linesToCreate.push(snapLine);
 			}
 		}
-		for (const id of currentLineMap.keys()) linesToDelete.push(id);
+		for (const [id, current] of currentLineMap) {
+			if (!isKept(current))
+				linesToDelete.push(id);
+		}
 
 		const currentArcMap = new Map(currentArcs.map(a => [a.id, a]));
 		const arcsToDelete: string[] = [];
@@ -497,20 +516,21 @@ export async function restoreSnapshot(snapshotId: number, showToast: boolean = t
 
 		for (const snapArc of snapshot.arcs) {
 			if (currentArcMap.has(snapArc.id)) {
-				if (isArcEqual(snapArc, currentArcMap.get(snapArc.id))) {
-					currentArcMap.delete(snapArc.id);
-				}
-				else {
+				const current = currentArcMap.get(snapArc.id)!;
+				currentArcMap.delete(snapArc.id);
+				if (!isArcEqual(snapArc, current) && !isKept(current)) {
 					arcsToDelete.push(snapArc.id);
 					arcsToCreate.push(snapArc);
-					currentArcMap.delete(snapArc.id);
 				}
 			}
-			else {
+			else if (!isKept(snapArc)) {
 				arcsToCreate.push(snapArc);
 			}
 		}
-		for (const id of currentArcMap.keys()) arcsToDelete.push(id);
+		for (const [id, current] of currentArcMap) {
+			if (!isKept(current))
+				arcsToDelete.push(id);
+		}
 
 		// Execute
 		if (linesToDelete.length > 0)
@@ -534,8 +554,13 @@ export async function restoreSnapshot(snapshotId: number, showToast: boolean = t
 			catch (e) { logWarn(`Arc restore error: ${e}`); }
 		}
 
+		const skipSummary = describeSkips(skips);
+		if (skipSummary)
+			logInfo(`Restore kept ${skips.locked} locked and ${skips.protectedNet} protected-net primitives as they are`, 'Snapshot');
 		if (showToast && eda.sys_Message) {
-			eda.sys_Message.showToastMessage(`Restored successfully (L:${linesToCreate.length - linesToDelete.length}, A:${arcsToCreate.length - arcsToDelete.length})`);
+			eda.sys_Message.showToastMessage(
+				[`Restored successfully (L:${linesToCreate.length - linesToDelete.length}, A:${arcsToCreate.length - arcsToDelete.length})`, skipSummary].filter(Boolean).join('; '),
+			);
 		}
 
 		setLastRestoredId(snapshot.id);
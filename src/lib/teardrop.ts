@@ -1,5 +1,11 @@
+import type { PointIndex } from './connectivity';
+import type { Point } from './math';
+import type { ScopeSkips } from './scope';
+import { addPoint, createPointIndex, findNear, isConnected } from './connectivity';
 import { debugLog, logError } from './logger';
-import { cubicBezier, dist, lerp } from './math';
+import { cubicBezier, dist, lerp, pointSegmentDistance } from './math';
+import { parsePolylineSource } from './polyline';
+import { describeSkips, getScopeFilter, isNetInScope, isNetProtected, isPointInScope, isPrimitiveLocked, splitByScope } from './scope';
 import { getSettings } from './settings';
 import { createSnapshot } from './snapshot';
 
@@ -33,8 +39,6 @@ export async function addTeardrops() {
 	}
 
 	try {
-		await removeExistingTeardrops(); // Remove existing first
-
 		let pins: any[] = [];
 		const selected = await eda.pcb_SelectControl.getAllSelectedPrimitives();
 
@@ -87,6 +91,14 @@ export async function addTeardrops() {
 
 		debugLog(`Processing ${pins.length} pads/vias`, 'Teardrop');
 
+		const scopeFilter = await getScopeFilter(settings);
+
+		// Track endpoints per net, read once for all pads and vias of the net
+		const netEndpoints = new Map<string, PointIndex<any>>();
+		const skips: ScopeSkips = { locked: 0, protectedNet: 0, outOfScope: 0 };
+		const lockedTracks = new Set<string>();
+		const jobs: { pin: any; track: any }[] = [];
+
 		let processedCount = 0;
 		for (const pin of pins) {
 			const net = pin.getState_Net();
@@ -94,37 +106,74 @@ export async function addTeardrops() {
 				continue;
 			}
 
+			if (isNetProtected(scopeFilter.protectedNets, net)) {
+				skips.protectedNet++;
+				continue;
+			}
+
 			const px = pin.getState_X();
 			const py = pin.getState_Y();
+			if (!isNetInScope(scopeFilter, net) || !isPointInScope(scopeFilter, { x: px, y: py })) {
+				skips.outOfScope++;
+				continue;
+			}
 
 			processedCount++;
 
 			// Get tracks connected to this pad (across all layers)
-			const allTracks = await eda.pcb_PrimitiveLine.getAll(net);
-			const connectedTracks = allTracks.filter(
-				(p: any) =>
-					dist(
-						{ x: p.getState_StartX(), y: p.getState_StartY() },
-						{ x: px, y: py },
-					) < 0.1
-					|| dist(
-						{ x: p.getState_EndX(), y: p.getState_EndY() },
-						{ x: px, y: py },
-					) < 0.1,
-			);
+			if (!netEndpoints.has(net)) {
+				const endpoints = createPointIndex<any>(settings.connectivityTolerance);
+				for (const track of await eda.pcb_PrimitiveLine.getAll(net)) {
+					addPoint(endpoints, { x: track.getState_StartX(), y: track.getState_StartY() }, track);
+					addPoint(endpoints, { x: track.getState_EndX(), y: track.getState_EndY() }, track);
+				}
+				netEndpoints.set(net, endpoints);
+			}
+			const nearTracks = [...new Set(findNear(netEndpoints.get(net)!, { x: px, y: py }))];
+			// A track can reach two pads, count each locked one once
+			for (const track of nearTracks.filter(isPrimitiveLocked))
+				lockedTracks.add(track.getState_PrimitiveId());
 
-			for (const track of connectedTracks) {
-				await createTeardropForTrack(pin, track, settings);
+			for (const track of splitByScope(scopeFilter, nearTracks).kept)
+				jobs.push({ pin, track });
+		}
+
+		// Replace only the teardrops of the pads and tracks processed now; the others stay as they are.
+		// A locked teardrop is kept, and its pad and track get no second one.
+		const teardrops = await getTeardropRegions();
+		const toDelete = new Set<string>();
+		const toCreate = jobs.filter(({ pin, track }) => {
+			const own = teardrops.filter(teardrop => isTeardropOf(teardrop, pin, track, settings.connectivityTolerance));
+			if (own.some(teardrop => teardrop.locked)) {
+				skips.locked++;
+				return false;
+			}
+			own.forEach(teardrop => toDelete.add(teardrop.id));
+			return true;
+		});
+		if (toDelete.size > 0) {
+			try {
+				await eda.pcb_PrimitiveRegion.delete([...toDelete]);
+			}
+			catch (e: any) {
+				logError(`Failed to remove ${toDelete.size} existing teardrops: ${e.message || e}`, 'Teardrop');
 			}
 		}
 
-		debugLog(`Processing complete, processed ${processedCount} pads/vias`, 'Teardrop');
+		for (const { pin, track } of toCreate)
+			await createTeardropForTrack(pin, track, settings);
+
+		skips.locked += lockedTracks.size;
+		debugLog(`Processing complete, processed ${processedCount} pads/vias; skipped ${skips.protectedNet} protected-net pads/vias, ${skips.locked} locked tracks`, 'Teardrop');
 
 		if (
 			eda.sys_Message
 			&& typeof eda.sys_Message.showToastMessage === 'function'
 		) {
-			eda.sys_Message.showToastMessage(eda.sys_I18n.text(`Teardrop processing complete (processed ${processedCount})`));
+			eda.sys_Message.showToastMessage([
+				eda.sys_I18n.text(`Teardrop processing complete (processed ${processedCount})`),
+				describeSkips(skips),
+			].filter(Boolean).join('; '));
 		}
 
 		// Create post-operation snapshot
@@ -153,36 +202,60 @@ export async function addTeardrops() {
 	}
 }
 
-async function removeExistingTeardrops() {
-	try {
-		const regions = await eda.pcb_PrimitiveRegion.getAll();
-		const toDelete: string[] = [];
-
-		if (regions && Array.isArray(regions)) {
-			for (const region of regions) {
-				let name = '';
-				if (typeof region.getState_RegionName === 'function') {
-					name = region.getState_RegionName() ?? '';
-				}
-
-				if (name === 'Teardrop') {
-					if (typeof region.getState_PrimitiveId === 'function') {
-						const id = region.getState_PrimitiveId();
-						if (id) {
-							toDelete.push(id);
-						}
-					}
-				}
-			}
-		}
+/**
+ * Teardrop region on the board
+ */
+interface TeardropRegion {
+	id: string;
+	layer: number;
+	locked: boolean;
+	outline: Point[];
+}
 
-		if (toDelete.length > 0) {
-			await eda.pcb_PrimitiveRegion.delete(toDelete);
+/**
+ * Read the regions this tool created as teardrops
+ */
+async function getTeardropRegions(): Promise<TeardropRegion[]> {
+	const teardrops: TeardropRegion[] = [];
+	try {
+		for (const region of await eda.pcb_PrimitiveRegion.getAll() || []) {
+			if (region.getState_RegionName?.() !== 'Teardrop')
+				continue;
+			const source = region.getState_ComplexPolygon?.()?.getSource?.();
+			const outer = Array.isArray(source?.[0]) ? source[0] : source;
+			const pieces = Array.isArray(outer) ? parsePolylineSource(outer) : [];
+			if (pieces.length === 0)
+				continue;
+			teardrops.push({
+				id: region.getState_PrimitiveId(),
+				layer: Number(region.getState_Layer()),
+				locked: isPrimitiveLocked(region),
+				outline: [pieces[0].start, ...pieces.map(piece => piece.end)],
+			});
 		}
 	}
-	catch (e) {
-		console.error('Failed to remove existing teardrops', e);
+	catch (e: any) {
+		logError(`Failed to read existing teardrops: ${e.message || e}`, 'Teardrop');
 	}
+	return teardrops;
+}
+
+/**
+ * Whether a teardrop belongs to a pad and track: it has a corner on the pad centre,
+ * and its tip (the corner furthest from the pad) lies on the track
+ */
+function isTeardropOf(teardrop: TeardropRegion, pin: any, track: any, tolerance: number): boolean {
+	if (teardrop.layer !== Number(track.getState_Layer()))
+		return false;
+	const center = { x: pin.getState_X(), y: pin.getState_Y() };
+	if (!teardrop.outline.some(p => dist(p, center) <= tolerance))
+		return false;
+	const tip = teardrop.outline.reduce((far, p) => (dist(p, center) > dist(far, center) ? p : far));
+	return pointSegmentDistance(
+		tip,
+		{ x: track.getState_StartX(), y: track.getState_StartY() },
+		{ x: track.getState_EndX(), y: track.getState_EndY() },
+	) <= tolerance;
 }
 
 async function createTeardropForTrack(pin: any, track: any, settings: any) {
@@ -191,11 +264,11 @@ async function createTeardropForTrack(pin: any, track: any, settings: any) {
 	const trackWidth = track.getState_LineWidth();
 
 	// Determine which end connects to the pad
-	const isStart
-		= dist(
-			{ x: track.getState_StartX(), y: track.getState_StartY() },
-			{ x: px, y: py },
-		) < 0.1;
+	const isStart = isConnected(
+		{ x: track.getState_StartX(), y: track.getState_StartY() },
+		{ x: px, y: py },
+		settings.connectivityTolerance,
+	);
 	const pFar = isStart
 		? { x: track.getState_EndX(), y: track.getState_EndY() }
 		: { x: track.getState_StartX(), y: track.getState_StartY() };
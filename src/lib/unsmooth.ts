@@ -0,0 +1,227 @@
+/**
+ * Unsmooth Feature
+ * Converts arcs between two tangent tracks back into sharp corners,
+ * so smoothed routing can be reworked without restoring a snapshot.
+ */
+
+import type { Point } from './math';
+import type { ScopeSkips } from './scope';
+import { getSafeSelectedArcs } from './eda_utils';
+import { debugLog, logError } from './logger';
+import { dist, getAngleBetween, getArcMidpoint, getLineIntersection, rotateVector } from './math';
+import { describeSkips, getScopeFilter, getSkipReason, splitByScope } from './scope';
+import { getSettings } from './settings';
+import { createSnapshot } from './snapshot';
+
+const TANGENT_TOLERANCE = 2; // Max angle between track and arc tangent (degrees)
+
+/**
+ * Track as edited in memory; an arc may move either end
+ */
+interface EditableLine {
+	id: string;
+	start: Point;
+	end: Point;
+	moved: boolean;
+	skipReason: keyof ScopeSkips | null; // Why the track must stay as it is, null if it may move
+}
+
+/**
+ * Find the track that ends within `tolerance` of `point` and runs along `tangent` (pointing away from the arc)
+ * @returns Track and which of its ends touches the arc
+ */
+function findTangentLine(lines: EditableLine[], point: Point, tangent: Point, tolerance: number) {
+	for (const line of lines) {
+		for (const end of ['start', 'end'] as const) {
+			if (dist(line[end], point) > tolerance)
+				continue;
+			const far = end === 'start' ? line.end : line.start;
+			const dir = { x: far.x - point.x, y: far.y - point.y };
+			if (Math.abs(getAngleBetween(tangent, dir)) <= TANGENT_TOLERANCE)
+				return { line, end, far };
+		}
+	}
+	return null;
+}
+
+/**
+ * Find the track ends within `tolerance` of any of `points`
+ */
+function findStubEnds(lines: EditableLine[], points: Point[], tolerance: number) {
+	const stubs: { line: EditableLine; end: 'start' | 'end' }[] = [];
+	for (const line of lines) {
+		for (const end of ['start', 'end'] as const) {
+			if (points.some(p => dist(line[end], p) <= tolerance))
+				stubs.push({ line, end });
+		}
+	}
+	return stubs;
+}
+
+/**
+ * Unsmooth routing: replace arcs with the corner at the intersection of their tangent tracks
+ * @param scope 'selected' only process selected arcs, 'all' process all arcs
+ */
+export async function unsmoothRouting(scope: 'selected' | 'all' = 'selected') {
+	if (eda.sys_LoadingAndProgressBar?.showLoading) {
+		eda.sys_LoadingAndProgressBar.showLoading();
+	}
+
+	try {
+		let arcs: any[] = [];
+		if (scope === 'all') {
+			arcs = await eda.pcb_PrimitiveArc.getAll() || [];
+		}
+		else {
+			const selectedIds = await eda.pcb_SelectControl.getAllSelectedPrimitives_PrimitiveId();
+			if (!selectedIds || selectedIds.length === 0) {
+				eda.sys_Message?.showToastMessage(eda.sys_I18n.text('请先选择要处理的圆弧'));
+				return;
+			}
+			arcs = await getSafeSelectedArcs(selectedIds);
+		}
+		const settings = await getSettings();
+		const filter = await getScopeFilter(settings);
+		const split = splitByScope(filter, arcs);
+		arcs = split.kept;
+
+		if (arcs.length === 0) {
+			eda.sys_Message?.showToastMessage([eda.sys_I18n.text('未找到可处理的圆弧'), describeSkips(split.skips)].filter(Boolean).join('; '));
+			return;
+		}
+
+		try {
+			await createSnapshot(scope === 'all' ? 'Unsmooth (All) Before' : 'Unsmooth (Selected) Before');
+		}
+		catch (e: any) {
+			logError(`Failed to create snapshot: ${e.message || e}`);
+		}
+
+		// Tracks of each net/layer, edited in memory and written back once
+		const linesByGroup = new Map<string, EditableLine[]>();
+		const arcIdsToDelete: string[] = [];
+		let skipped = 0;
+
+		for (const arc of arcs) {
+			const net = arc.getState_Net();
+			const layer = arc.getState_Layer();
+			const groupKey = `${net}#@#${layer}`;
+			if (!linesByGroup.has(groupKey)) {
+				const lines = await eda.pcb_PrimitiveLine.getAll(net || undefined, layer) || [];
+				linesByGroup.set(groupKey, lines
+					.filter(l => l.getState_Net() === net)
+					.map(l => ({
+						id: l.getState_PrimitiveId(),
+						start: { x: l.getState_StartX(), y: l.getState_StartY() },
+						end: { x: l.getState_EndX(), y: l.getState_EndY() },
+						moved: false,
+						skipReason: getSkipReason(filter, l),
+					})));
+			}
+			const lines = linesByGroup.get(groupKey)!;
+
+			const arcStart = { x: arc.getState_StartX(), y: arc.getState_StartY() };
+			const arcEnd = { x: arc.getState_EndX(), y: arc.getState_EndY() };
+			const arcAngle = arc.getState_ArcAngle();
+			const arcId = arc.getState_PrimitiveId();
+
+			// Arc tangents, pointing away from the arc at each end
+			const chord = { x: arcEnd.x - arcStart.x, y: arcEnd.y - arcStart.y };
+			const dirIn = rotateVector(chord, -arcAngle / 2);
+			const dirOut = rotateVector(chord, arcAngle / 2);
+			const lineIn = findTangentLine(lines, arcStart, { x: -dirIn.x, y: -dirIn.y }, settings.connectivityTolerance);
+			const lineOut = findTangentLine(lines, arcEnd, dirOut, settings.connectivityTolerance);
+
+			if (!lineIn || !lineOut || lineIn.line === lineOut.line) {
+				skipped++;
+				debugLog(`Arc ${arcId} skipped: not between two tangent tracks`, 'Unsmooth');
+				continue;
+			}
+
+			// The arc stays when moving its corner would move a track the scope leaves alone
+			const fixedLine = [lineIn.line, lineOut.line].find(l => l.skipReason);
+			if (fixedLine) {
+				skipped++;
+				split.skips[fixedLine.skipReason!]++;
+				debugLog(`Arc ${arcId} skipped: tangent track ${fixedLine.id} is ${fixedLine.skipReason}`, 'Unsmooth');
+				continue;
+			}
+
+			const corner = getLineIntersection(lineIn.far, arcStart, arcEnd, lineOut.far);
+			if (!corner) {
+				skipped++;
+				debugLog(`Arc ${arcId} skipped: tangent tracks are parallel`, 'Unsmooth');
+				continue;
+			}
+
+			// Branch stubs that smoothing re-attached to the arc (its midpoint or tangent points) return to the corner
+			const arcMid = getArcMidpoint(arcStart, arcEnd, arcAngle);
+			const stubs = findStubEnds(lines, [arcMid, arcStart, arcEnd], settings.connectivityTolerance)
+				.filter(stub => stub.line !== lineIn.line && stub.line !== lineOut.line);
+			const fixedStub = stubs.find(stub => stub.line.skipReason);
+			if (fixedStub) {
+				skipped++;
+				split.skips[fixedStub.line.skipReason!]++;
+				debugLog(`Arc ${arcId} skipped: branch track ${fixedStub.line.id} is ${fixedStub.line.skipReason}`, 'Unsmooth');
+				continue;
+			}
+
+			// Extend both tracks to the corner; each keeps its own width
+			lineIn.line[lineIn.end] = corner;
+			lineIn.line.moved = true;
+			lineOut.line[lineOut.end] = corner;
+			lineOut.line.moved = true;
+			for (const stub of stubs) {
+				stub.line[stub.end] = corner;
+				stub.line.moved = true;
+			}
+			arcIdsToDelete.push(arcId);
+		}
+
+		let restored = 0;
+		if (arcIdsToDelete.length > 0) {
+			await eda.pcb_PrimitiveArc.delete(arcIdsToDelete);
+			restored = arcIdsToDelete.length;
+
+			for (const lines of linesByGroup.values()) {
+				for (const line of lines) {
+					if (!line.moved)
+						continue;
+					try {
+						await eda.pcb_PrimitiveLine.modify(line.id, {
+							startX: line.start.x,
+							startY: line.start.y,
+							endX: line.end.x,
+							endY: line.end.y,
+						});
+					}
+					catch (e: any) {
+						logError(`Failed to update track ${line.id}: ${e.message || e}`, 'Unsmooth');
+					}
+				}
+			}
+		}
+
+		let message = `${eda.sys_I18n.text('取消圆滑完成')}: ${eda.sys_I18n.text('恢复了')} ${restored} ${eda.sys_I18n.text('个拐角')}`;
+		if (skipped > 0)
+			message += `, ${eda.sys_I18n.text('跳过')} ${skipped} ${eda.sys_I18n.text('个圆弧')}`;
+		const skipSummary = describeSkips(split.skips);
+		if (skipSummary)
+			message += `; ${skipSummary}`;
+		eda.sys_Message?.showToastMessage(message);
+
+		try {
+			await createSnapshot(scope === 'all' ? 'Unsmooth (All) After' : 'Unsmooth (Selected) After');
+		}
+		catch (e: any) {
+			logError(`Failed to create result snapshot: ${e.message || e}`);
+		}
+	}
+	catch (e: any) {
+		logError(`Unsmooth failed: ${e.message || e}`, 'Unsmooth');
+		eda.sys_Dialog?.showInformationMessage(e.message, 'Unsmooth Error');
+	}
+	finally {
+		eda.sys_LoadingAndProgressBar?.destroyLoading?.();
+	}
+}
@@ -0,0 +1,25 @@
+import type { PathPiece } from './widthTransition';
+import { describe, expect, it } from 'vitest';
+import { getTransitionPolygonSource } from './widthTransition';
+
+describe('getTransitionPolygonSource', () => {
+	const path: PathPiece[] = [{ start: { x: 0, y: 0 }, end: { x: 100, y: 0 }, length: 100 }];
+	const source = getTransitionPolygonSource(path, [0, 50, 100], s => 30 - s / 5);
+
+	it('starts with a point followed by line mode', () => {
+		expect(source[2]).toBe('L');
+		expect(source.filter(token => token === 'L')).toHaveLength(1);
+		expect(source).toHaveLength(1 + 2 * 3 * 2);
+	});
+
+	it('runs out along one edge and back along the other', () => {
+		const coords = source.filter((token): token is number => typeof token === 'number');
+		const points = [];
+		for (let k = 0; k < coords.length; k += 2)
+			points.push({ x: coords[k], y: Math.abs(coords[k + 1]) });
+		expect(points.map(p => p.x)).toEqual([0, 50, 100, 100, 50, 0]);
+		expect(points.map(p => p.y)).toEqual([15, 10, 5, 5, 10, 15]);
+		// The two edges lie on opposite sides of the route
+		expect(Math.sign(coords[1])).toBe(-Math.sign(coords[coords.length - 1]));
+	});
+});
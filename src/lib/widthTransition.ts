@@ -1,27 +1,99 @@
 /**
  * Width Transition Feature
- * Adds smooth transitions between tracks of different widths on the same net.
- * Uses cubic Bezier curves for smooth width gradients.
+ * Adds smooth transitions between tracks and arcs of different widths on the same net,
+ * following the narrow route through corners and arcs, and between tracks and the pads they end on.
+ * Built from stepped-width line segments, or as one filled polygon on the net.
  */
 
-import { getSafeSelectedTracks } from './eda_utils';
+import type { PointIndex } from './connectivity';
+import type { Point } from './math';
+import { getArcLineWidthMap, makeArcWidthKey } from './beautify';
+import { getCopperEnds } from './cleanup';
+import { addPoint, createNodeKeys, createPointIndex, findNear } from './connectivity';
+import { getSafeSelectedArcs, getSafeSelectedTracks } from './eda_utils';
 import { debugLog, logError } from './logger';
-import { dist, isClose, smootherStep } from './math';
+import { dist, getArcCenter, isClose, lerp, rotateVector, taperWidth } from './math';
+import { getTrackLength } from './netLength';
+import { describeSkips, getScopeFilter, splitByScope } from './scope';
 import { getSettings } from './settings';
-import { createSnapshot } from './snapshot';
+import { createSnapshot, getCurrentPcbInfoSafe } from './snapshot';
 
 // Store created transition element IDs and position info
 const TRANSITION_STORAGE_KEY = 'width_transition_data';
+const POLYGON_SAMPLES = 48; // Min samples along each edge of a polygon transition
+const TRANSITION_MAX_SHARE = 0.9; // Max share of the narrow route a transition may cover
+const MIN_MITRE_LEN_SQ = 0.25; // Squared length floor of a mitred normal sum, caps the mitre at 4x
+const MULTI_LAYER = 12; // EPCB_LayerId.MULTI, through-hole pads
+const PAD_EXIT_STEPS = 16; // Search steps per pad short side when finding where a track leaves the pad
+
+/**
+ * Track or arc as read for width transitions
+ */
+interface TransitionTrack {
+	id: string;
+	start: Point;
+	end: Point;
+	width: number;
+	arcAngle?: number; // Signed arc angle (degrees), undefined for straight tracks
+	layer: number;
+}
+
+/**
+ * Pad outline a track can end on: a rectangle, or an oval when `oval` is set
+ */
+interface PadOutline {
+	net: string;
+	layer: number;
+	center: Point;
+	rotation: number; // Degrees
+	width: number;
+	height: number;
+	oval: boolean;
+}
+
+/**
+ * One end of a track in a group
+ */
+interface TrackEnd {
+	k: number; // Index of the track in its group
+	end: 'start' | 'end';
+}
+
+/**
+ * Piece of the narrow route a transition follows, oriented away from the junction
+ */
+export interface PathPiece {
+	start: Point;
+	end: Point;
+	arcAngle?: number; // Signed arc angle (degrees), undefined for straight pieces
+	length: number;
+}
 
 interface TransitionRecord {
-	point: string; // Coordinate key
+	point: string; // Coordinate key, `x,y` or `x,y@trackId` for a pad entry
 	ids: string[]; // Corresponding primitive ID list
+	fillId?: string; // Filled polygon of the transition (polygon output)
+	trimmed?: { id: string; end: 'start' | 'end'; x: number; y: number }; // Track end moved back by a pad neck-down
 }
 
 interface TransitionData {
 	records: TransitionRecord[];
 }
 
+/**
+ * Delete the primitives of a transition
+ */
+async function deleteTransition(record: TransitionRecord): Promise<void> {
+	if (record.ids && record.ids.length > 0)
+		await eda.pcb_PrimitiveLine.delete(record.ids);
+	if (record.fillId)
+		await eda.pcb_PrimitiveFill.delete(record.fillId);
+	if (record.trimmed) {
+		const { id, end, x, y } = record.trimmed;
+		await eda.pcb_PrimitiveLine.modify(id, end === 'start' ? { startX: x, startY: y } : { endX: x, endY: y });
+	}
+}
+
 /**
  * Get saved transition data
  */
@@ -85,7 +157,10 @@ export async function addWidthTransitionsSelected() {
 
 		try {
 			// Use safe retrieval function for mixed selections
-			const selectedTracks = await getSafeSelectedTracks(allSelectedIds);
+			const selectedTracks = [
+				...await getSafeSelectedTracks(allSelectedIds),
+				...await getSafeSelectedArcs(allSelectedIds),
+			];
 
 			if (selectedTracks.length === 0) {
 				eda.sys_Message?.showToastMessage(eda.sys_I18n.text('没有找到导线'));
@@ -97,9 +172,10 @@ export async function addWidthTransitionsSelected() {
 			// Save data
 			await saveTransitionData(result.data);
 
-			eda.sys_Message?.showToastMessage(
+			eda.sys_Message?.showToastMessage([
 				eda.sys_I18n.text(`Width transition completed, processed ${result.count} connection points`),
-			);
+				result.skipSummary,
+			].filter(Boolean).join('; '));
 
 			// Save post-operation snapshot
 			try {
@@ -144,8 +220,11 @@ export async function addWidthTransitionsAll(createBackup: boolean = true) {
 
 	try {
 		// Get all tracks
-		const allTracks = await eda.pcb_PrimitiveLine.getAll();
-		if (!allTracks || allTracks.length === 0) {
+		const allTracks = [
+			...await eda.pcb_PrimitiveLine.getAll() || [],
+			...await eda.pcb_PrimitiveArc.getAll() || [],
+		];
+		if (allTracks.length === 0) {
 			return;
 		}
 
@@ -181,11 +260,57 @@ async function processWidthTransitions(
 	tracks: any[],
 	savedData: TransitionData,
 	settings: any,
-): Promise<{ data: TransitionData; count: number }> {
+): Promise<{ data: TransitionData; count: number; skipSummary: string }> {
 	debugLog(`Got ${tracks.length} tracks`, 'Transitions');
+	const split = splitByScope(await getScopeFilter(settings), tracks);
+	tracks = split.kept;
+
+	// Segments of earlier transitions are not routing, leave them out of the pairing
+	const transitionIds = new Set((savedData.records || []).flatMap(r => r.ids || []));
+	tracks = tracks.filter(track => !transitionIds.has(track.getState_PrimitiveId?.()));
+
+	// Junctions are told apart by node, so points within the connectivity tolerance are one junction
+	const nodeKey = createNodeKeys(settings.connectivityTolerance);
+	const pointKey = (p: Point) => `${p.x.toFixed(3)},${p.y.toFixed(3)}`;
+	const recordKey = (point: string) => {
+		const [coords, id] = point.split('@');
+		const [x, y] = coords.split(',').map(Number);
+		const node = nodeKey({ x, y });
+		return id ? `${node}@${id}` : node;
+	};
+
+	// Build record map for quick lookups
+	const recordsMap = new Map<string, TransitionRecord>();
+	if (savedData.records) {
+		savedData.records.forEach(r => recordsMap.set(recordKey(r.point), r));
+	}
+
+	// A neck-down moved its track off the pad: put the end back, so the pad entry is planned afresh
+	const trackIds = new Set(tracks.map(track => track.getState_PrimitiveId?.()));
+	const restoredEnds = new Map<string, { end: 'start' | 'end'; point: Point }>();
+	for (const [key, record] of recordsMap) {
+		if (!record.trimmed || !trackIds.has(record.trimmed.id))
+			continue;
+		try {
+			await deleteTransition(record);
+			restoredEnds.set(record.trimmed.id, { end: record.trimmed.end, point: { x: record.trimmed.x, y: record.trimmed.y } });
+			recordsMap.delete(key);
+		}
+		catch (e: any) {
+			logError(`Failed to delete old transition: ${e.message || e}`);
+		}
+	}
+
+	const pcbId = (await getCurrentPcbInfoSafe())?.id || '';
+	const pads = settings.padEntryTransitions ? await getPadOutlines() : [];
+	// Copper the run leaves alone: a wide track meeting any of it is not shortened
+	const otherCopper = await getCopperEnds(
+		new Set(tracks.map(track => track.getState_Net?.() || '')),
+		new Set([...trackIds, ...transitionIds]),
+	);
 
 	// Group by net and layer
-	const netLayerMap = new Map<string, any[]>();
+	const netLayerMap = new Map<string, TransitionTrack[]>();
 
 	for (const track of tracks) {
 		const net = track.getState_Net?.() || '';
@@ -196,173 +321,129 @@ async function processWidthTransitions(
 		if (!netLayerMap.has(groupKey)) {
 			netLayerMap.set(groupKey, []);
 		}
-		netLayerMap.get(groupKey)!.push(track);
+		const id = track.getState_PrimitiveId();
+		const isArc = typeof track.getState_ArcAngle === 'function';
+		const item: TransitionTrack = {
+			id,
+			start: { x: track.getState_StartX(), y: track.getState_StartY() },
+			end: { x: track.getState_EndX(), y: track.getState_EndY() },
+			width: (isArc ? getArcLineWidthMap().get(makeArcWidthKey(pcbId, id)) : undefined) ?? track.getState_LineWidth(),
+			arcAngle: isArc ? track.getState_ArcAngle() : undefined,
+			layer,
+		};
+		const restored = restoredEnds.get(id);
+		if (restored)
+			item[restored.end] = restored.point;
+		netLayerMap.get(groupKey)!.push(item);
 	}
 
 	debugLog(`Total ${netLayerMap.size} groups`, 'Transitions');
 
-	// Build record map for quick lookups
-	const recordsMap = new Map<string, TransitionRecord>();
-	if (savedData.records) {
-		savedData.records.forEach(r => recordsMap.set(r.point, r));
-	}
-
 	const processedPointsInCurrentRun = new Set<string>();
-	const pointKey = (p: { x: number; y: number }) => `${p.x.toFixed(3)},${p.y.toFixed(3)}`;
 	let transitionCount = 0;
 
 	// Process each group
 	for (const [groupKey, groupTracks] of netLayerMap) {
-		if (groupTracks.length < 2)
-			continue;
-
 		const isNoNet = groupKey.startsWith('__NO_NET__');
 		const actualNet = isNoNet ? '' : groupKey.replace(/^net_/, '').replace(/_layer_\d+$/, '');
 
-		// Find track pairs with connected endpoints but different widths
-		for (let i = 0; i < groupTracks.length; i++) {
-			for (let j = i + 1; j < groupTracks.length; j++) {
-				const t1 = groupTracks[i];
-				const t2 = groupTracks[j];
+		// Endpoint index of the group, so only tracks that meet are paired
+		const endpoints = createPointIndex<TrackEnd>(settings.connectivityTolerance);
+		groupTracks.forEach((track, k) => {
+			addPoint(endpoints, track.start, { k, end: 'start' });
+			addPoint(endpoints, track.end, { k, end: 'end' });
+		});
+		const groupCopper = createPointIndex<boolean>(settings.connectivityTolerance);
+		for (const end of otherCopper) {
+			if (end.net === actualNet && (end.layer === null || end.layer === Number(groupTracks[0].layer)))
+				addPoint(groupCopper, end.point, true);
+		}
 
-				const w1 = t1.getState_LineWidth();
-				const w2 = t2.getState_LineWidth();
+		// Find tracks and arcs that meet with different widths, at any angle
+		for (let i = 0; i < groupTracks.length; i++) {
+			const t1 = groupTracks[i];
+			for (const end1 of ['start', 'end'] as const) {
+				const key = nodeKey(t1[end1]);
 
-				// Only process cases with different widths
-				if (isClose(w1, w2, 0.01))
+				// Prevent duplicate processing of the same point in this run
+				if (processedPointsInCurrentRun.has(key))
 					continue;
 
-				// Get endpoints
-				const t1Start = { x: t1.getState_StartX(), y: t1.getState_StartY() };
-				const t1End = { x: t1.getState_EndX(), y: t1.getState_EndY() };
-				const t2Start = { x: t2.getState_StartX(), y: t2.getState_StartY() };
-				const t2End = { x: t2.getState_EndX(), y: t2.getState_EndY() };
-
-				// Check all possible endpoint connections
-				const tolerance = 0.1;
-				const connections: Array<{
-					point: { x: number; y: number };
-					t1Dir: { x: number; y: number };
-					t2Dir: { x: number; y: number };
-				}> = [];
-
-				if (dist(t1End, t2Start) < tolerance) {
-					connections.push({
-						point: t1End,
-						t1Dir: { x: t1End.x - t1Start.x, y: t1End.y - t1Start.y },
-						t2Dir: { x: t2End.x - t2Start.x, y: t2End.y - t2Start.y },
-					});
-				}
-				if (dist(t1End, t2End) < tolerance) {
-					connections.push({
-						point: t1End,
-						t1Dir: { x: t1End.x - t1Start.x, y: t1End.y - t1Start.y },
-						t2Dir: { x: t2Start.x - t2End.x, y: t2Start.y - t2End.y },
-					});
-				}
-				if (dist(t1Start, t2Start) < tolerance) {
-					connections.push({
-						point: t1Start,
-						t1Dir: { x: t1Start.x - t1End.x, y: t1Start.y - t1End.y },
-						t2Dir: { x: t2End.x - t2Start.x, y: t2End.y - t2Start.y },
-					});
-				}
-				if (dist(t1Start, t2End) < tolerance) {
-					connections.push({
-						point: t1Start,
-						t1Dir: { x: t1Start.x - t1End.x, y: t1Start.y - t1End.y },
-						t2Dir: { x: t2Start.x - t2End.x, y: t2Start.y - t2End.y },
-					});
+				const meeting = findNear(endpoints, t1[end1]);
+				const partner = meeting.find(e => e.k !== i && !isClose(groupTracks[e.k].width, t1.width, 0.01));
+				if (!partner)
+					continue;
+				// A taper joins one wide track to one narrow track, a branch has no single pair to join
+				if (meeting.length > 2) {
+					processedPointsInCurrentRun.add(key);
+					debugLog(`Skipped junction of ${meeting.length} tracks at ${pointKey(t1[end1])}: a transition needs exactly two`, 'Transitions');
+					continue;
 				}
+				const t2 = groupTracks[partner.k];
 
-				// Process connection points
-				for (const conn of connections) {
-					const key = pointKey(conn.point);
+				debugLog(`Found width transition point: w1=${t1.width.toFixed(2)}, w2=${t2.width.toFixed(2)}, point=${pointKey(t1[end1])}`, 'Transitions');
 
-					// Prevent duplicate processing of the same point in this run
-					if (processedPointsInCurrentRun.has(key)) {
-						continue;
+				// Check for old transition data, clean up if exists
+				if (recordsMap.has(key)) {
+					try {
+						await deleteTransition(recordsMap.get(key)!);
 					}
-
-					// Check for old transition data, clean up if exists
-					if (recordsMap.has(key)) {
-						const oldRecord = recordsMap.get(key)!;
-						if (oldRecord.ids && oldRecord.ids.length > 0) {
-							try {
-								await eda.pcb_PrimitiveLine.delete(oldRecord.ids);
-							}
-							catch (e: any) {
-								logError(`Failed to delete old transition: ${e.message || e}`);
-							}
-						}
-						recordsMap.delete(key);
+					catch (e: any) {
+						logError(`Failed to delete old transition: ${e.message || e}`);
 					}
+					recordsMap.delete(key);
+				}
 
-					// Check collinearity
-					const len1 = Math.sqrt(conn.t1Dir.x ** 2 + conn.t1Dir.y ** 2);
-					const len2 = Math.sqrt(conn.t2Dir.x ** 2 + conn.t2Dir.y ** 2);
-					if (len1 < 0.001 || len2 < 0.001)
-						continue;
-
-					const dot = (conn.t1Dir.x * conn.t2Dir.x + conn.t1Dir.y * conn.t2Dir.y) / (len1 * len2);
-
-					// Angle difference less than 30 degrees
-					if (Math.abs(Math.abs(dot) - 1) > 0.13) {
-						if (settings.debug) {
-							debugLog(`Skipping non-collinear connection: dot=${dot.toFixed(3)}`, 'Transitions');
-						}
-						continue;
-					}
+				// Mark as processed
+				processedPointsInCurrentRun.add(key);
 
-					debugLog(`Found width transition point: w1=${w1.toFixed(2)}, w2=${w2.toFixed(2)}, point=${key}`, 'Transitions');
+				// Create transition segments or polygon
+				const [narrow, wide] = t1.width < t2.width ? [{ k: i, end: end1 }, partner] : [partner, { k: i, end: end1 }];
+				const created = await createPairTransition(groupTracks, endpoints, groupCopper, wide, narrow, actualNet, settings);
 
-					// Mark as processed
-					processedPointsInCurrentRun.add(key);
+				if (created.ids.length > 0 || created.fillId) {
+					// Record newly created transition
+					recordsMap.set(key, {
+						point: pointKey(t1[end1]),
+						...created,
+					});
+					transitionCount++;
+				}
 
-					// Determine direction and narrow track length
-					let transitionDir: { x: number; y: number };
-					let narrowTrackLength: number;
+				// Prevent UI freezing
+				if (transitionCount % 5 === 0) {
+					await new Promise(r => setTimeout(r, 10));
+				}
+			}
+		}
 
-					// Calculate actual lengths of both tracks
-					const t1Length = dist(t1Start, t1End);
-					const t2Length = dist(t2Start, t2End);
+		// Track ends on a pad of the net whose width differs from the pad's short side
+		const groupPads = pads.filter(pad => pad.net === actualNet && (pad.layer === MULTI_LAYER || pad.layer === Number(groupTracks[0].layer)));
+		for (let k = 0; k < groupTracks.length && groupPads.length > 0; k++) {
+			const track = groupTracks[k];
+			for (const end of ['start', 'end'] as const) {
+				const node = nodeKey(track[end]);
+				const key = `${node}@${track.id}`;
+				const pad = groupPads.find(pad => isInsidePad(pad, track[end]));
+				// A track-to-track transition at the same point already covers it
+				if (!pad || processedPointsInCurrentRun.has(key) || processedPointsInCurrentRun.has(node) || isClose(Math.min(pad.width, pad.height), track.width, 0.01))
+					continue;
+				processedPointsInCurrentRun.add(key);
 
-					if (w1 < w2) {
-						// t1 is the narrow track
-						transitionDir = { x: -conn.t1Dir.x, y: -conn.t1Dir.y };
-						narrowTrackLength = t1Length;
+				if (recordsMap.has(key)) {
+					try {
+						await deleteTransition(recordsMap.get(key)!);
 					}
-					else {
-						// t2 is the narrow track
-						transitionDir = { x: conn.t2Dir.x, y: conn.t2Dir.y };
-						narrowTrackLength = t2Length;
-					}
-
-					// Create transition segments
-					const ids = await createWidthTransition(
-						conn.point,
-						transitionDir,
-						w1,
-						w2,
-						t1.getState_Layer(),
-						actualNet,
-						narrowTrackLength,
-						settings,
-					);
-
-					if (ids.length > 0) {
-						// Record newly created transition
-						recordsMap.set(key, {
-							point: key,
-							ids,
-						});
-						transitionCount++;
+					catch (e: any) {
+						logError(`Failed to delete old transition: ${e.message || e}`);
 					}
+					recordsMap.delete(key);
+				}
 
-					// Prevent UI freezing
-					if (transitionCount % 5 === 0) {
-						await new Promise(r => setTimeout(r, 10));
-					}
+				const created = await createPadEntryTransition(pad, groupTracks, endpoints, { k, end }, actualNet, settings);
+				if (created.ids.length > 0 || created.fillId) {
+					recordsMap.set(key, { point: `${pointKey(track[end])}@${track.id}`, ...created });
+					transitionCount++;
 				}
 			}
 		}
@@ -375,64 +456,442 @@ async function processWidthTransitions(
 			records: Array.from(recordsMap.values()),
 		},
 		count: transitionCount,
+		skipSummary: describeSkips(split.skips),
+	};
+}
+
+/**
+ * Length of a transition: the width difference times the ratio setting,
+ * but no more than a share of the route it runs along
+ * @param width1 Width at one end
+ * @param width2 Width at the other end
+ * @param routeLength Length of the route the transition runs along
+ * @param settings Extension settings
+ */
+function getTransitionLength(width1: number, width2: number, routeLength: number, settings: any): number {
+	const idealLength = Math.abs(width1 - width2) * (settings.widthTransitionRatio || 1.5);
+	return Math.min(idealLength, routeLength * TRANSITION_MAX_SHARE);
+}
+
+function getPathLength(path: PathPiece[]): number {
+	return path.reduce((sum, piece) => sum + piece.length, 0);
+}
+
+/**
+ * Move a track end back to make room for a transition; the returned record keeps the old end
+ * @param track Straight track
+ * @param end End to move
+ * @param to New position of the end
+ */
+async function trimTrack(track: TransitionTrack, end: 'start' | 'end', to: Point): Promise<TransitionRecord['trimmed']> {
+	await eda.pcb_PrimitiveLine.modify(track.id, end === 'start' ? { startX: to.x, startY: to.y } : { endX: to.x, endY: to.y });
+	const trimmed = { id: track.id, end, x: track[end].x, y: track[end].y };
+	// A transition at the other end of the track sees its new length
+	track[end] = to;
+	return trimmed;
+}
+
+/**
+ * Where a transition goes and how long it is. Narrow: along the narrow route; wide: in place
+ * of the end of the wide track; center: half on each side of the junction. With fallback,
+ * a placement that cannot hold the full length gives way to the one that holds the longest.
+ * @param settings Extension settings
+ * @param idealLength Full transition length
+ * @param narrowRoom Length the narrow route can give
+ * @param wideRoom Length the wide track can give
+ */
+function chooseTransitionPlacement(
+	settings: any,
+	idealLength: number,
+	narrowRoom: number,
+	wideRoom: number,
+): { placement: 'narrow' | 'wide' | 'center'; length: number } {
+	const lengthOf = (placement: 'narrow' | 'wide' | 'center') => {
+		if (placement === 'narrow')
+			return Math.min(idealLength, narrowRoom);
+		if (placement === 'wide')
+			return Math.min(idealLength, wideRoom);
+		return 2 * Math.min(idealLength / 2, narrowRoom, wideRoom);
+	};
+	let placement: 'narrow' | 'wide' | 'center' = settings.widthTransitionPlacement || 'narrow';
+	if (settings.widthTransitionFallback !== false && lengthOf(placement) < idealLength) {
+		for (const other of ['narrow', 'wide', 'center'] as const) {
+			if (lengthOf(other) > lengthOf(placement) + 1e-6)
+				placement = other;
+		}
+	}
+	return { placement, length: lengthOf(placement) };
+}
+
+/**
+ * Transition at a junction of a wide and a narrow track, placed as the settings ask.
+ * Wide-side and centred transitions move the end of the wide track back, so only a
+ * straight wide track that meets nothing but the narrow one can hold them.
+ * @param tracks Tracks and arcs of the net and layer
+ * @param endpoints Endpoint index of the tracks
+ * @param otherCopper Ends of other copper of the net and layer: vias, pads, tracks left out of the run
+ * @param wide Junction end of the wide track
+ * @param narrow Junction end of the narrow track
+ * @param net Net name
+ * @param settings Extension settings
+ */
+async function createPairTransition(
+	tracks: TransitionTrack[],
+	endpoints: PointIndex<TrackEnd>,
+	otherCopper: PointIndex<boolean>,
+	wide: TrackEnd,
+	narrow: TrackEnd,
+	net: string,
+	settings: any,
+): Promise<Omit<TransitionRecord, 'point'>> {
+	const wideTrack = tracks[wide.k];
+	const narrowTrack = tracks[narrow.k];
+	const idealLength = getTransitionLength(wideTrack.width, narrowTrack.width, Infinity, settings);
+
+	// The narrow route bends with corners and arcs; the wide side is the wide track itself
+	const narrowPath = followNarrowPath(tracks, endpoints, narrow.k, narrow.end, idealLength / TRANSITION_MAX_SHARE);
+	const junction = wideTrack[wide.end];
+	const wideFar = wide.end === 'start' ? wideTrack.end : wideTrack.start;
+	const wideLength = wideTrack.arcAngle === undefined ? dist(junction, wideFar) : 0;
+	const narrowRoom = getPathLength(narrowPath) * TRANSITION_MAX_SHARE;
+
+	// Shortening the wide track would pull it off anything else that meets it here
+	const plainJunction = findNear(endpoints, junction).length === 2 && findNear(otherCopper, junction).length === 0;
+	const { placement, length } = plainJunction
+		? chooseTransitionPlacement(settings, idealLength, narrowRoom, wideLength * TRANSITION_MAX_SHARE)
+		: { placement: 'narrow' as const, length: Math.min(idealLength, narrowRoom) };
+	if (!plainJunction && settings.widthTransitionPlacement && settings.widthTransitionPlacement !== 'narrow')
+		debugLog(`Transition placed on the narrow side: other copper meets the junction at (${junction.x.toFixed(2)}, ${junction.y.toFixed(2)})`, 'Transitions');
+	else if (placement !== (settings.widthTransitionPlacement || 'narrow'))
+		debugLog(`Transition placed on the ${placement} side instead: ${length.toFixed(2)} of ${idealLength.toFixed(2)} fits there`, 'Transitions');
+
+	if (placement === 'narrow')
+		return createWidthTransition(narrowPath, wideTrack.width, narrowTrack.width, length, narrowTrack.layer, net, settings);
+
+	// The taper starts where the wide track now ends and runs through the junction
+	const onWide = placement === 'wide' ? length : length / 2;
+	const start = lerp(junction, wideFar, onWide / wideLength);
+	const path: PathPiece[] = [{ start, end: junction, length: onWide }, ...(placement === 'center' ? narrowPath : [])];
+	const created = await createWidthTransition(path, wideTrack.width, narrowTrack.width, length, narrowTrack.layer, net, settings);
+	if (created.ids.length === 0 && !created.fillId)
+		return created;
+	try {
+		created.trimmed = await trimTrack(wideTrack, wide.end, start);
+	}
+	catch (e: any) {
+		logError(`Failed to shorten track ${wideTrack.id}: ${e.message || e}`, 'Transitions');
+	}
+	return created;
+}
+
+/**
+ * Outlines of all free pads and component pins on the board.
+ * Rectangles and ovals only: other shapes have no clear short side.
+ */
+async function getPadOutlines(): Promise<PadOutline[]> {
+	const pads: any[] = [...(await eda.pcb_PrimitivePad.getAll() || [])];
+	for (const component of await eda.pcb_PrimitiveComponent.getAll() || [])
+		pads.push(...(await eda.pcb_PrimitiveComponent.getAllPinsByPrimitiveId(component.getState_PrimitiveId()) || []));
+
+	const outlines: PadOutline[] = [];
+	for (const pad of pads) {
+		const shape = pad.getState_Pad?.();
+		const net = pad.getState_Net?.() || '';
+		if (!Array.isArray(shape) || !net)
+			continue;
+		const [type, width, height] = shape;
+		if (!['RECT', 'ELLIPSE', 'OVAL'].includes(type) || typeof width !== 'number' || typeof height !== 'number')
+			continue;
+		outlines.push({
+			net,
+			layer: Number(pad.getState_Layer()),
+			center: { x: pad.getState_X(), y: pad.getState_Y() },
+			rotation: pad.getState_Rotation?.() || 0,
+			width,
+			height,
+			oval: type !== 'RECT',
+		});
+	}
+	debugLog(`Read ${outlines.length} pad outlines`, 'Transitions');
+	return outlines;
+}
+
+/**
+ * Whether a point lies on a pad
+ */
+function isInsidePad(pad: PadOutline, p: Point): boolean {
+	const local = rotateVector({ x: p.x - pad.center.x, y: p.y - pad.center.y }, -pad.rotation);
+	if (!pad.oval)
+		return Math.abs(local.x) <= pad.width / 2 + 1e-6 && Math.abs(local.y) <= pad.height / 2 + 1e-6;
+	// Oval: a capsule along the longer side
+	const half = Math.abs(pad.width - pad.height) / 2;
+	const radius = Math.min(pad.width, pad.height) / 2;
+	const dx = pad.width >= pad.height ? Math.max(0, Math.abs(local.x) - half) : local.x;
+	const dy = pad.width >= pad.height ? local.y : Math.max(0, Math.abs(local.y) - half);
+	return dx * dx + dy * dy <= radius * radius + 1e-6;
+}
+
+/**
+ * Distance along a route that starts on a pad to where it leaves the pad, null if it never does
+ */
+function getPadExit(pad: PadOutline, path: PathPiece[]): number | null {
+	const total = getPathLength(path);
+	const step = Math.min(pad.width, pad.height) / PAD_EXIT_STEPS;
+	let outside = step;
+	while (outside < total && isInsidePad(pad, pointAlongPath(path, outside).point))
+		outside += step;
+	if (outside >= total)
+		return isInsidePad(pad, pointAlongPath(path, total).point) ? null : total;
+
+	// Bisect between the last step on the pad and the first one off it
+	let inside = outside - step;
+	for (let i = 0; i < 20; i++) {
+		const mid = (inside + outside) / 2;
+		if (isInsidePad(pad, pointAlongPath(path, mid).point))
+			inside = mid;
+		else
+			outside = mid;
+	}
+	return outside;
+}
+
+/**
+ * The part of a route from a distance onward
+ */
+function slicePath(path: PathPiece[], from: number): PathPiece[] {
+	const sliced: PathPiece[] = [];
+	let rest = from;
+	for (const piece of path) {
+		if (rest >= piece.length) {
+			rest -= piece.length;
+			continue;
+		}
+		if (rest > 0) {
+			const share = 1 - rest / piece.length;
+			sliced.push({
+				start: pointAlongPath([piece], rest).point,
+				end: piece.end,
+				arcAngle: piece.arcAngle === undefined ? undefined : piece.arcAngle * share,
+				length: piece.length - rest,
+			});
+			rest = 0;
+		}
+		else {
+			sliced.push(piece);
+		}
+	}
+	return sliced;
+}
+
+/**
+ * Transition between a track and the pad it ends on, sized to the pad's short side.
+ * A track narrower than the pad widens toward the pad edge; a wider one is moved back
+ * off the pad and necks down to the pad width, with a pad-width stub into the pad.
+ * @param pad Pad the track ends on
+ * @param tracks Tracks and arcs of the net and layer
+ * @param endpoints Endpoint index of the tracks
+ * @param onPad The track end on the pad
+ * @param net Net name
+ * @param settings Extension settings
+ */
+async function createPadEntryTransition(
+	pad: PadOutline,
+	tracks: TransitionTrack[],
+	endpoints: PointIndex<TrackEnd>,
+	onPad: TrackEnd,
+	net: string,
+	settings: any,
+): Promise<Omit<TransitionRecord, 'point'>> {
+	const track = tracks[onPad.k];
+	const padWidth = Math.min(pad.width, pad.height);
+
+	if (track.width < padWidth) {
+		const route = followNarrowPath(tracks, endpoints, onPad.k, onPad.end, Infinity);
+		const exit = getPadExit(pad, route);
+		if (exit === null)
+			return { ids: [] };
+		const path = slicePath(route, exit);
+		debugLog(`Pad entry: track ${track.id} fans out from ${track.width.toFixed(2)} to pad width ${padWidth.toFixed(2)}`, 'Transitions');
+		return createWidthTransition(path, padWidth, track.width, getTransitionLength(padWidth, track.width, getPathLength(path), settings), track.layer, net, settings);
+	}
+
+	// A neck-down moves the track end, so only straight tracks
+	if (track.arcAngle !== undefined)
+		return { ids: [] };
+	const padEnd = track[onPad.end];
+	const farEnd = onPad.end === 'start' ? track.end : track.start;
+	const length = dist(padEnd, farEnd);
+	const exit = getPadExit(pad, [{ start: padEnd, end: farEnd, length }]);
+	if (exit === null)
+		return { ids: [] };
+	const taperLength = getTransitionLength(track.width, padWidth, length - exit, settings);
+	if (taperLength < 1)
+		return { ids: [] };
+
+	// The taper runs from the moved track end back to the pad edge
+	const joint = lerp(padEnd, farEnd, (exit + taperLength) / length);
+	const edge = lerp(padEnd, farEnd, exit / length);
+	debugLog(`Pad entry: track ${track.id} necks down from ${track.width.toFixed(2)} to pad width ${padWidth.toFixed(2)}`, 'Transitions');
+	const created = await createWidthTransition(
+		[{ start: joint, end: padEnd, length: exit + taperLength }],
+		track.width,
+		padWidth,
+		taperLength,
+		track.layer,
+		net,
+		settings,
+	);
+	if (created.ids.length === 0 && !created.fillId)
+		return created;
+
+	try {
+		const stub = await eda.pcb_PrimitiveLine.create(net, track.layer, edge.x, edge.y, padEnd.x, padEnd.y, padWidth, false);
+		if (stub?.getState_PrimitiveId)
+			created.ids.push(stub.getState_PrimitiveId());
+		created.trimmed = await trimTrack(track, onPad.end, joint);
+	}
+	catch (e: any) {
+		logError(`Failed to neck down track ${track.id}: ${e.message || e}`, 'Transitions');
+	}
+	return created;
+}
+
+/**
+ * The narrow route from a junction: the narrow track, then the tracks and arcs of the
+ * same width that continue it, until the route forks, changes width or is long enough.
+ * @param tracks Tracks and arcs of one net and layer
+ * @param endpoints Endpoint index of the tracks
+ * @param first Index of the narrow track
+ * @param from End of the narrow track at the junction
+ * @param maxLength Route length that is long enough
+ */
+function followNarrowPath(
+	tracks: TransitionTrack[],
+	endpoints: PointIndex<TrackEnd>,
+	first: number,
+	from: 'start' | 'end',
+	maxLength: number,
+): PathPiece[] {
+	const pieces: PathPiece[] = [];
+	const visited = new Set<number>();
+	let k = first;
+	let end = from;
+	let length = 0;
+	while (true) {
+		visited.add(k);
+		const track = tracks[k];
+		// Orient the piece away from the junction, a reversed arc turns the other way
+		const piece = end === 'start'
+			? { start: track.start, end: track.end, arcAngle: track.arcAngle }
+			: { start: track.end, end: track.start, arcAngle: track.arcAngle === undefined ? undefined : -track.arcAngle };
+		const pieceLength = getTrackLength(piece.start, piece.end, piece.arcAngle);
+		pieces.push({ ...piece, length: pieceLength });
+		length += pieceLength;
+		if (length >= maxLength)
+			break;
+
+		const next = findNear(endpoints, piece.end).filter(e => e.k !== k);
+		if (next.length !== 1 || visited.has(next[0].k) || !isClose(tracks[next[0].k].width, track.width, 0.01))
+			break;
+		k = next[0].k;
+		end = next[0].end;
+	}
+	return pieces;
+}
+
+/**
+ * Point at a distance along a route, and the left normal there.
+ * Where two pieces meet at an angle the normal is mitred, so offset edges meet.
+ * @param pieces Route
+ * @param s Distance from the start of the route
+ */
+function pointAlongPath(pieces: PathPiece[], s: number): { point: Point; normal: Point } {
+	const at = (piece: PathPiece, f: number) => {
+		if (piece.arcAngle === undefined || Math.abs(piece.arcAngle) < 0.01) {
+			const d = dist(piece.start, piece.end);
+			const dir = d > 1e-9 ? { x: (piece.end.x - piece.start.x) / d, y: (piece.end.y - piece.start.y) / d } : { x: 1, y: 0 };
+			return { point: lerp(piece.start, piece.end, f), normal: { x: -dir.y, y: dir.x } };
+		}
+		const center = getArcCenter(piece.start, piece.end, piece.arcAngle);
+		const radial = rotateVector({ x: piece.start.x - center.x, y: piece.start.y - center.y }, piece.arcAngle * f);
+		const r = Math.sqrt(radial.x ** 2 + radial.y ** 2);
+		// Left of the direction of travel is toward the centre on a counterclockwise arc
+		const sign = piece.arcAngle > 0 ? -1 : 1;
+		return { point: { x: center.x + radial.x, y: center.y + radial.y }, normal: { x: (sign * radial.x) / r, y: (sign * radial.y) / r } };
 	};
+
+	let rest = s;
+	for (let i = 0; i < pieces.length; i++) {
+		const piece = pieces[i];
+		if (rest > piece.length + 1e-9 && i < pieces.length - 1) {
+			rest -= piece.length;
+			continue;
+		}
+		const here = at(piece, piece.length > 0 ? Math.min(1, rest / piece.length) : 0);
+		if (i < pieces.length - 1 && rest >= piece.length - 1e-9) {
+			// Mitre: the sum of both normals, scaled to reach the offset lines (capped on hairpins)
+			const next = at(pieces[i + 1], 0).normal;
+			const sum = { x: here.normal.x + next.x, y: here.normal.y + next.y };
+			const lenSq = Math.max(sum.x ** 2 + sum.y ** 2, MIN_MITRE_LEN_SQ);
+			here.normal = { x: (2 * sum.x) / lenSq, y: (2 * sum.y) / lenSq };
+		}
+		return here;
+	}
+	return { point: pieces[0].start, normal: { x: 0, y: 1 } };
 }
 
 /**
- * Create width transition (using multiple line segments + Bezier curve interpolation for smooth transition).
- * Transition extends toward the narrow track, starting at the wide width and ending at the narrow width.
- * @param point Transition start coordinate
- * @param point.x X coordinate
- * @param point.y Y coordinate
- * @param direction Transition direction vector
- * @param direction.x X component
- * @param direction.y Y component
+ * Polygon source (`x y L x y ...`) of a transition outline: the left edge out along the route, the right edge back
+ * @param path Route of the transition
+ * @param positions Distances along the route to place outline points at, ascending
+ * @param widthAt Width at a distance along the route
+ */
+export function getTransitionPolygonSource(path: PathPiece[], positions: number[], widthAt: (s: number) => number): Array<number | 'L'> {
+	const left: number[] = [];
+	const right: number[] = [];
+	for (const s of positions) {
+		const half = widthAt(s) / 2;
+		const { point, normal } = pointAlongPath(path, s);
+		left.push(point.x + normal.x * half, point.y + normal.y * half);
+		right.unshift(point.x - normal.x * half, point.y - normal.y * half);
+	}
+	return [left[0], left[1], 'L', ...left.slice(2), ...right];
+}
+
+/**
+ * Create width transition along the narrow route, as stepped-width line segments or as one
+ * filled polygon with tapered edges. Starts at the wide width at the junction and ends at the narrow width.
+ * @param path Narrow route from the junction
  * @param width1 Width of the first track
  * @param width2 Width of the second track
+ * @param transitionLength Length of the transition along the route (see getTransitionLength)
  * @param layer PCB layer
  * @param net Net name
- * @param narrowTrackLength Length of the narrow track; transition won't exceed this
  * @param settings Extension settings
  */
 async function createWidthTransition(
-	point: { x: number; y: number },
-	direction: { x: number; y: number },
+	path: PathPiece[],
 	width1: number,
 	width2: number,
+	transitionLength: number,
 	layer: number,
 	net: string,
-	narrowTrackLength: number,
 	settings: any,
-): Promise<string[]> {
+): Promise<Omit<TransitionRecord, 'point'>> {
 	const createdIds: string[] = [];
 
-	// Normalize direction (direction already points toward narrow track)
-	const len = Math.sqrt(direction.x ** 2 + direction.y ** 2);
-	if (len < 0.001)
-		return createdIds;
-
-	// Direction points toward narrow track
-	const ux = direction.x / len;
-	const uy = direction.y / len;
-
 	// Determine wide and narrow widths
 	const wideWidth = Math.max(width1, width2);
 	const narrowWidth = Math.min(width1, width2);
 	const widthDiff = wideWidth - narrowWidth;
 
-	// Transition length (extends toward narrow track)
-	// Calculate ideal length, but don't exceed 90% of narrow track length (leave some margin)
-	const idealLength = widthDiff * (settings.widthTransitionRatio || 1.5);
-	const maxAllowedLength = narrowTrackLength * 0.9;
-	const transitionLength = Math.min(idealLength, maxAllowedLength);
-
 	// If transition length is too short, skip
 	if (transitionLength < 1) {
 		debugLog(`Skipped: transition length too short (${transitionLength.toFixed(2)})`, 'Transitions');
-		return createdIds;
+		return { ids: createdIds };
 	}
 
-	debugLog(`Ideal length=${idealLength.toFixed(2)}, actual length=${transitionLength.toFixed(2)}`, 'Transitions');
+	debugLog(`Transition length=${transitionLength.toFixed(2)}, route length=${getPathLength(path).toFixed(2)}, route pieces=${path.length}`, 'Transitions');
 
 	// Segment count calculation
 	// Dynamically calculate needed segments for smoothness
@@ -454,31 +913,52 @@ async function createWidthTransition(
 		segments = Math.min(segments, 6);
 	}
 
-	debugLog(`Creating Bezier transition: length=${transitionLength.toFixed(2)}, segments=${segments}`, 'Transitions');
+	debugLog(`Creating ${settings.widthTransitionProfile || 'smooth'} transition: length=${transitionLength.toFixed(2)}, segments=${segments}`, 'Transitions');
+
+	const widthAt = (t: number) => taperWidth(
+		settings.widthTransitionProfile || 'smooth',
+		wideWidth,
+		narrowWidth,
+		t,
+		[settings.widthTransitionBezierP1 ?? 0, settings.widthTransitionBezierP2 ?? 1],
+	);
+
+	// Positions along the route: even steps, plus every joint of the route so corners are followed exactly
+	// One primitive whatever the point count for a polygon, so its edges are sampled finer
+	const steps = settings.widthTransitionOutput === 'polygon' ? Math.max(segments, POLYGON_SAMPLES) : segments;
+	const stops: number[] = [];
+	for (let i = 0; i <= steps; i++)
+		stops.push((i / steps) * transitionLength);
+	let joint = 0;
+	for (const piece of path.slice(0, -1)) {
+		joint += piece.length;
+		if (joint < transitionLength)
+			stops.push(joint);
+	}
+	stops.sort((a, b) => a - b);
+	const positions = stops.filter((s, i) => i === 0 || s - stops[i - 1] > 1e-6);
 
-	// Use Bezier curve interpolation to create gradient segments
-	// From connection point (t=0, wideWidth) extending toward narrow track (t=1, narrowWidth)
-	// Start width=wide width (covers connection), end width=narrow width (tangent to narrow track)
-	for (let i = 0; i < segments; i++) {
-		const t1 = i / segments;
-		const t2 = (i + 1) / segments;
+	if (settings.widthTransitionOutput === 'polygon') {
+		try {
+			const polygon = eda.pcb_MathPolygon.createPolygon(getTransitionPolygonSource(path, positions, s => widthAt(s / transitionLength)));
+			// A fill, not a region: PCB_PrimitiveRegion.create has no net parameter
+			const fill = polygon ? await eda.pcb_PrimitiveFill.create(layer, polygon, net) : undefined;
+			if (fill?.getState_PrimitiveId)
+				return { ids: [], fillId: fill.getState_PrimitiveId() };
+		}
+		catch (err) {
+			logError(`Failed to create transition polygon: ${err}`, 'Transitions');
+		}
+		return { ids: [] };
+	}
 
-		// Bezier curve interpolation for width
-		// t=0 -> wideWidth, t=1 -> narrowWidth
-		// Fix: use t2 (segment end) to calculate width, ensuring last segment ends exactly at narrowWidth
+	// From the junction (t=0, wideWidth) along the narrow route (t=1, narrowWidth)
+	for (let i = 0; i + 1 < positions.length; i++) {
+		// Fix: use the segment end to calculate width, ensuring last segment ends exactly at narrowWidth
 		// This avoids a "step" at the narrow track connection
-		const bezierT = smootherStep(t2);
-		const w = wideWidth - widthDiff * bezierT;
-
-		// Calculate segment position (extending from connection point toward narrow track)
-		const p1 = {
-			x: point.x + ux * (t1 * transitionLength),
-			y: point.y + uy * (t1 * transitionLength),
-		};
-		const p2 = {
-			x: point.x + ux * (t2 * transitionLength),
-			y: point.y + uy * (t2 * transitionLength),
-		};
+		const w = widthAt(positions[i + 1] / transitionLength);
+		const p1 = pointAlongPath(path, positions[i]).point;
+		const p2 = pointAlongPath(path, positions[i + 1]).point;
 
 		try {
 			const line = await eda.pcb_PrimitiveLine.create(
@@ -501,7 +981,7 @@ async function createWidthTransition(
 		}
 	}
 
-	return createdIds;
+	return { ids: createdIds };
 }
 
 /**
@@ -511,7 +991,7 @@ export async function removeWidthTransitions() {
 	try {
 		const data = await getSavedTransitionData();
 		if (data.records && data.records.length > 0) {
-			const allIds = data.records.flatMap(r => r.ids);
+			const allIds = data.records.flatMap(r => r.ids || []);
 			if (allIds.length > 0) {
 				try {
 					await eda.pcb_PrimitiveLine.delete(allIds);
@@ -520,6 +1000,26 @@ export async function removeWidthTransitions() {
 					// Ignore deletion failures
 				}
 			}
+			const fillIds = data.records.flatMap(r => (r.fillId ? [r.fillId] : []));
+			if (fillIds.length > 0) {
+				try {
+					await eda.pcb_PrimitiveFill.delete(fillIds);
+				}
+				catch {
+					// Ignore deletion failures
+				}
+			}
+			// Put necked-down tracks back on their pads
+			for (const { trimmed } of data.records) {
+				if (!trimmed)
+					continue;
+				try {
+					await eda.pcb_PrimitiveLine.modify(trimmed.id, trimmed.end === 'start' ? { startX: trimmed.x, startY: trimmed.y } : { endX: trimmed.x, endY: trimmed.y });
+				}
+				catch {
+					// Ignore restore failures
+				}
+			}
 			await saveTransitionData({ records: [] });
 		}
 	}
@@ -0,0 +1,9 @@
+import { defineConfig } from 'vitest/config';
+
+export default defineConfig({
+	// Tests only need type stripping, not the compiler options of the extension build
+	esbuild: { tsconfigRaw: '{}' },
+	test: {
+		include: ['src/**/*.test.ts'],
+	},
+});